@@ -0,0 +1,248 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Trash2 } from 'lucide-react';
+import { AssignmentRule, AssignmentRuleType, CodingMode, Money } from '@/types/donation';
+import {
+  CENTS_RULE_PRIORITY,
+  DEFAULT_RULE_PRIORITY,
+  RULE_TYPE_LABELS,
+  describeRule,
+  isValidRegex,
+  sortRules,
+} from '@/utils/assignmentRules';
+import { parseDecimalMoney } from '@/utils/money';
+import { MAX_CODE } from '@/utils/churches';
+import { useToast } from '@/hooks/use-toast';
+
+interface AssignmentRulesConfigProps {
+  rules: AssignmentRule[];
+  onRulesChange: (rules: AssignmentRule[]) => void;
+  /** Digits new cents rules compare, same as the cents mapping table */
+  codingMode: CodingMode;
+}
+
+const PATTERN_PLACEHOLDERS: Partial<Record<AssignmentRuleType, string>> = {
+  donor: 'Maria da Silva',
+  keyword: 'dizimo central',
+  regex: 'oferta\\s+missoes',
+  pixKey: 'financeiro@igreja.org',
+  account: '12345-6',
+};
+
+// Typed as on a statement: "1.234,56" or "1234"
+const parseAmountInput = (value: string): Money | undefined => {
+  if (!value.trim()) return undefined;
+  return parseDecimalMoney(value.trim().replace(/\./g, '').replace(',', '.'));
+};
+
+export function AssignmentRulesConfig({ rules, onRulesChange, codingMode }: AssignmentRulesConfigProps) {
+  const [type, setType] = useState<AssignmentRuleType>('donor');
+  const [pattern, setPattern] = useState('');
+  const [minAmount, setMinAmount] = useState('');
+  const [maxAmount, setMaxAmount] = useState('');
+  const [cents, setCents] = useState('');
+  const [churchName, setChurchName] = useState('');
+  const [priority, setPriority] = useState(String(DEFAULT_RULE_PRIORITY));
+  const { toast } = useToast();
+
+  const showError = (description: string) => {
+    toast({ title: "Erro", description, variant: "destructive" });
+  };
+
+  const addRule = () => {
+    const rule: AssignmentRule = {
+      id: Date.now().toString(36),
+      type,
+      churchName: churchName.trim(),
+      priority: parseInt(priority),
+    };
+
+    if (type === 'amountRange') {
+      rule.minAmount = parseAmountInput(minAmount);
+      rule.maxAmount = parseAmountInput(maxAmount);
+      if (Number.isNaN(rule.minAmount) || Number.isNaN(rule.maxAmount)) {
+        return showError("Informe os valores da faixa como 100,00");
+      }
+      if (rule.minAmount === undefined && rule.maxAmount === undefined) {
+        return showError("Informe o valor mínimo, o máximo ou ambos");
+      }
+      if (rule.minAmount !== undefined && rule.maxAmount !== undefined && rule.minAmount > rule.maxAmount) {
+        return showError("O valor mínimo não pode ser maior que o máximo");
+      }
+    } else if (type === 'cents') {
+      rule.cents = parseInt(cents);
+      rule.codingMode = codingMode;
+      if (isNaN(rule.cents) || rule.cents < 0 || rule.cents > MAX_CODE[codingMode]) {
+        return showError(codingMode === 'threeDigit'
+          ? "O código deve ser um número entre 000 e 999"
+          : "Os centavos devem ser um número entre 00 e 99");
+      }
+    } else {
+      rule.pattern = pattern.trim();
+      if (!rule.pattern) {
+        return showError("Informe o critério da regra");
+      }
+      if (type === 'regex' && !isValidRegex(rule.pattern)) {
+        return showError("Expressão regular inválida");
+      }
+    }
+
+    if (!rule.churchName) {
+      return showError("O nome da igreja é obrigatório");
+    }
+
+    if (isNaN(rule.priority)) {
+      return showError("A prioridade deve ser um número");
+    }
+
+    onRulesChange(sortRules([...rules, rule]));
+    setPattern('');
+    setMinAmount('');
+    setMaxAmount('');
+    setCents('');
+    setChurchName('');
+
+    toast({
+      title: "Sucesso",
+      description: "Regra adicionada com sucesso",
+    });
+  };
+
+  const removeRule = (id: string) => {
+    onRulesChange(rules.filter(r => r.id !== id));
+    toast({
+      title: "Sucesso",
+      description: "Regra removida",
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Regras de Atribuição</CardTitle>
+        <CardDescription>
+          Atribua doações por doador, descrição, chave Pix, conta ou faixa de valor. As regras são testadas
+          da menor para a maior prioridade e a primeira que combinar define a igreja; o mapeamento por
+          centavos tem prioridade {CENTS_RULE_PRIORITY}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Add new rule */}
+        <div className="flex flex-wrap gap-4 items-end">
+          <div className="w-52 space-y-1">
+            <Label>Tipo</Label>
+            <Select value={type} onValueChange={(value) => setType(value as AssignmentRuleType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(RULE_TYPE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {type === 'amountRange' ? (
+            <>
+              <div className="w-32 space-y-1">
+                <Label htmlFor="rule-min">Valor mínimo</Label>
+                <Input id="rule-min" value={minAmount} onChange={(e) => setMinAmount(e.target.value)} placeholder="100,00" />
+              </div>
+              <div className="w-32 space-y-1">
+                <Label htmlFor="rule-max">Valor máximo</Label>
+                <Input id="rule-max" value={maxAmount} onChange={(e) => setMaxAmount(e.target.value)} placeholder="500,00" />
+              </div>
+            </>
+          ) : type === 'cents' ? (
+            <div className="w-32 space-y-1">
+              <Label htmlFor="rule-cents">{codingMode === 'threeDigit' ? 'Código (000-999)' : 'Centavos (00-99)'}</Label>
+              <Input
+                id="rule-cents"
+                type="number"
+                min="0"
+                max={MAX_CODE[codingMode]}
+                value={cents}
+                onChange={(e) => setCents(e.target.value)}
+                placeholder={codingMode === 'threeDigit' ? '723' : '01'}
+              />
+            </div>
+          ) : (
+            <div className="flex-1 min-w-48 space-y-1">
+              <Label htmlFor="rule-pattern">Critério</Label>
+              <Input
+                id="rule-pattern"
+                value={pattern}
+                onChange={(e) => setPattern(e.target.value)}
+                placeholder={PATTERN_PLACEHOLDERS[type]}
+              />
+            </div>
+          )}
+          <div className="flex-1 min-w-48 space-y-1">
+            <Label htmlFor="rule-church">Igreja</Label>
+            <Input
+              id="rule-church"
+              value={churchName}
+              onChange={(e) => setChurchName(e.target.value)}
+              placeholder="Igreja Exemplo"
+            />
+          </div>
+          <div className="w-24 space-y-1">
+            <Label htmlFor="rule-priority">Prioridade</Label>
+            <Input
+              id="rule-priority"
+              type="number"
+              value={priority}
+              onChange={(e) => setPriority(e.target.value)}
+            />
+          </div>
+          <Button onClick={addRule}>
+            <Plus className="h-4 w-4 mr-2" />
+            Adicionar
+          </Button>
+        </div>
+
+        {/* Rules table */}
+        {rules.length > 0 ? (
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Prioridade</TableHead>
+                  <TableHead>Regra</TableHead>
+                  <TableHead>Igreja</TableHead>
+                  <TableHead className="w-20">Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map((rule) => (
+                  <TableRow key={rule.id}>
+                    <TableCell>
+                      <Badge variant="outline">{rule.priority}</Badge>
+                    </TableCell>
+                    <TableCell>{describeRule(rule)}</TableCell>
+                    <TableCell className="font-medium">{rule.churchName}</TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="sm" onClick={() => removeRule(rule.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            Nenhuma regra configurada. Sem regras, as doações são atribuídas apenas pelos centavos.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
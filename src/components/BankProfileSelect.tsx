@@ -0,0 +1,47 @@
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Landmark } from 'lucide-react';
+import { BankProfile } from '@/types/donation';
+import { BANK_PROFILES } from '@/utils/bankProfiles';
+
+export const AUTO_BANK_PROFILE = 'auto';
+
+interface BankProfileSelectProps {
+  value: string;
+  suggestedProfile: BankProfile | null;
+  onValueChange: (value: string) => void;
+}
+
+export function BankProfileSelect({ value, suggestedProfile, onValueChange }: BankProfileSelectProps) {
+  return (
+    <div className="flex flex-col md:flex-row md:items-end gap-4">
+      <div className="w-full md:w-80 space-y-1">
+        <Label className="flex items-center">
+          <Landmark className="h-4 w-4 mr-2" />
+          Layout do banco
+        </Label>
+        <Select value={value} onValueChange={onValueChange}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={AUTO_BANK_PROFILE}>
+              Detectar automaticamente{suggestedProfile ? ` (${suggestedProfile.name})` : ''}
+            </SelectItem>
+            {BANK_PROFILES.map(profile => (
+              <SelectItem key={profile.id} value={profile.id}>
+                {profile.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {suggestedProfile && value === AUTO_BANK_PROFILE && (
+        <Badge variant="secondary" className="w-fit">
+          Layout sugerido: {suggestedProfile.name}
+        </Badge>
+      )}
+    </div>
+  );
+}
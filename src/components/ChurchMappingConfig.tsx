@@ -1,34 +1,86 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
-import { Plus, Trash2, Download, Upload } from 'lucide-react';
+import { Plus, Trash2, Download, Upload, ArrowRight, X, AlertTriangle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { Church, CodingMode, CollisionRiskLevel, ImportRecord, ValidityPeriod } from '@/types/donation';
+import { formatPeriod, periodsOverlap } from '@/utils/localDate';
+import {
+  CODING_MODE_LABELS,
+  MAX_CODE,
+  churchMappings,
+  formatCodeLabel,
+  groupMappings,
+  padCode,
+} from '@/utils/churches';
+import { MIN_SAMPLE_SIZE, RISK_LEVEL_LABELS, analyzeCollisionRisk } from '@/utils/collisionRisk';
 
-export interface ChurchMapping {
+/** One code of a church as a flat row, the way it is edited and exchanged as CSV */
+export interface ChurchMapping extends ValidityPeriod {
   cents: number;
   churchName: string;
 }
 
+const CSV_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const RISK_BADGE_VARIANTS: Record<CollisionRiskLevel, 'secondary' | 'outline' | 'destructive'> = {
+  low: 'secondary',
+  medium: 'outline',
+  high: 'destructive',
+};
+
+const formatRate = (rate: number) => `${Math.round(rate * 100)}%`;
+
 interface ChurchMappingConfigProps {
-  mappings: ChurchMapping[];
-  onMappingsChange: (mappings: ChurchMapping[]) => void;
+  churches: Church[];
+  onChurchesChange: (churches: Church[]) => void;
+  codingMode: CodingMode;
+  onCodingModeChange: (codingMode: CodingMode) => void;
+  /** Imported statements, whose amounts show which codes ordinary donations fall on */
+  importHistory: ImportRecord[];
 }
 
-export function ChurchMappingConfig({ mappings, onMappingsChange }: ChurchMappingConfigProps) {
+export function ChurchMappingConfig({
+  churches,
+  onChurchesChange,
+  codingMode,
+  onCodingModeChange,
+  importHistory,
+}: ChurchMappingConfigProps) {
+  const mappings = churchMappings(churches);
+  const configuredCodes = useMemo(
+    () => Array.from(new Set(churches.flatMap(c => c.codes.map(code => code.cents)))).sort((a, b) => a - b),
+    [churches],
+  );
+  const collisionReport = useMemo(
+    () => analyzeCollisionRisk(importHistory, configuredCodes, codingMode),
+    [importHistory, configuredCodes, codingMode],
+  );
+  const hasRiskEstimate = collisionReport.sampleSize >= MIN_SAMPLE_SIZE;
+  const highRiskCodes = hasRiskEstimate
+    ? configuredCodes.filter(code => collisionReport.risks[code].level === 'high')
+    : [];
+  const onMappingsChange = (updated: ChurchMapping[]) => onChurchesChange(groupMappings(updated));
+
   const [newCents, setNewCents] = useState('');
   const [newChurchName, setNewChurchName] = useState('');
+  const [newValidFrom, setNewValidFrom] = useState('');
+  const [newValidTo, setNewValidTo] = useState('');
   const { toast } = useToast();
 
   const addMapping = () => {
     const cents = parseInt(newCents);
-    if (isNaN(cents) || cents < 0 || cents > 99) {
+    if (isNaN(cents) || cents < 0 || cents > MAX_CODE[codingMode]) {
       toast({
         title: "Erro",
-        description: "Os centavos devem ser um número entre 00 e 99",
+        description: codingMode === 'threeDigit'
+          ? "O código deve ser um número entre 000 e 999"
+          : "Os centavos devem ser um número entre 00 e 99",
         variant: "destructive",
       });
       return;
@@ -43,41 +95,82 @@ export function ChurchMappingConfig({ mappings, onMappingsChange }: ChurchMappin
       return;
     }
 
-    if (mappings.some(m => m.cents === cents)) {
+    const newMapping: ChurchMapping = {
+      cents,
+      churchName: newChurchName.trim(),
+      validFrom: newValidFrom || undefined,
+      validTo: newValidTo || undefined,
+    };
+
+    if (newMapping.validFrom && newMapping.validTo && newMapping.validFrom > newMapping.validTo) {
       toast({
         title: "Erro",
-        description: "Já existe um mapeamento para estes centavos",
+        description: "A data inicial não pode ser posterior à data final",
         variant: "destructive",
       });
       return;
     }
 
-    const newMapping: ChurchMapping = {
-      cents,
-      churchName: newChurchName.trim(),
-    };
+    // A code may change hands over time, but never belong to two churches on the same day
+    const conflict = mappings.find(m => m.cents === cents && periodsOverlap(m, newMapping));
+    if (conflict) {
+      toast({
+        title: "Erro",
+        description: `O código ${formatCodeLabel(cents, codingMode)} já pertence a ${conflict.churchName} neste período`,
+        variant: "destructive",
+      });
+      return;
+    }
 
-    onMappingsChange([...mappings, newMapping].sort((a, b) => a.cents - b.cents));
+    onMappingsChange([...mappings, newMapping]);
     setNewCents('');
     setNewChurchName('');
+    setNewValidFrom('');
+    setNewValidTo('');
     
+    // The risks were estimated without this code, as a free one
+    const risk = collisionReport.risks[cents];
     toast({
       title: "Sucesso",
-      description: "Mapeamento adicionado com sucesso",
+      description: hasRiskEstimate && risk.level === 'high'
+        ? `Mapeamento adicionado, mas ${formatCodeLabel(cents, codingMode)} tem risco alto de colisão: cerca de ${formatRate(risk.falsePositiveRate)} das doações com ele seriam valores comuns`
+        : "Mapeamento adicionado com sucesso",
     });
   };
 
-  const removeMapping = (cents: number) => {
-    onMappingsChange(mappings.filter(m => m.cents !== cents));
+  const removeMapping = (mapping: ChurchMapping) => {
+    onMappingsChange(mappings.filter(m => m !== mapping));
     toast({
       title: "Sucesso",
       description: "Mapeamento removido",
     });
   };
 
+  const changeCodingMode = (mode: CodingMode) => {
+    // Three-digit codes would silently stop matching in two-digit mode
+    if (mappings.some(m => m.cents > MAX_CODE[mode])) {
+      toast({
+        title: "Erro",
+        description: "Remova os códigos com 3 dígitos antes de voltar ao modo de centavos",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    onCodingModeChange(mode);
+  };
+
+  const removeChurch = (churchName: string) => {
+    onChurchesChange(churches.filter(c => c.name !== churchName));
+    toast({
+      title: "Sucesso",
+      description: "Igreja removida",
+    });
+  };
+
   const exportMappings = () => {
-    const csvContent = "cents,church_name\n" + 
-      mappings.map(m => `${m.cents.toString().padStart(2, '0')},${m.churchName}`).join('\n');
+    const csvContent = "cents,church_name,valid_from,valid_to\n" + 
+      mappings.map(m => `${padCode(m.cents, codingMode)},${m.churchName},${m.validFrom || ''},${m.validTo || ''}`).join('\n');
     
     const blob = new Blob([csvContent], { type: 'text/csv' });
     const url = window.URL.createObjectURL(blob);
@@ -95,26 +188,41 @@ export function ChurchMappingConfig({ mappings, onMappingsChange }: ChurchMappin
         const csv = e.target?.result as string;
         const lines = csv.split('\n').filter(line => line.trim());
         const newMappings: ChurchMapping[] = [];
+        const conflictingLines: number[] = [];
         
         // Skip header if exists
         const startIndex = lines[0].toLowerCase().includes('cents') ? 1 : 0;
         
         for (let i = startIndex; i < lines.length; i++) {
-          const [centsStr, churchName] = lines[i].split(',');
-          const cents = parseInt(centsStr.trim());
+          const [centsStr, churchName, validFrom, validTo] = lines[i].split(',').map(cell => cell.trim());
+          const cents = parseInt(centsStr);
           
-          if (!isNaN(cents) && cents >= 0 && cents <= 99 && churchName?.trim()) {
-            newMappings.push({
+          if (!isNaN(cents) && cents >= 0 && cents <= MAX_CODE[codingMode] && churchName) {
+            const mapping: ChurchMapping = {
               cents,
-              churchName: churchName.trim(),
-            });
+              churchName,
+              validFrom: CSV_DATE_PATTERN.test(validFrom || '') ? validFrom : undefined,
+              validTo: CSV_DATE_PATTERN.test(validTo || '') ? validTo : undefined,
+            };
+
+            // Same rule as adding by hand: the first row to claim a code for a period keeps it
+            if ((mapping.validFrom && mapping.validTo && mapping.validFrom > mapping.validTo) ||
+              newMappings.some(m => m.cents === cents && periodsOverlap(m, mapping))) {
+              conflictingLines.push(i + 1);
+              continue;
+            }
+
+            newMappings.push(mapping);
           }
         }
         
-        onMappingsChange(newMappings.sort((a, b) => a.cents - b.cents));
+        onMappingsChange(newMappings);
         toast({
-          title: "Sucesso",
-          description: `${newMappings.length} mapeamentos importados`,
+          title: conflictingLines.length > 0 ? "Importação parcial" : "Sucesso",
+          description: conflictingLines.length > 0
+            ? `${newMappings.length} mapeamentos importados; linhas ignoradas por código já atribuído no mesmo período ou datas invertidas: ${conflictingLines.join(', ')}`
+            : `${newMappings.length} mapeamentos importados`,
+          variant: conflictingLines.length > 0 ? "destructive" : undefined,
         });
       } catch (error) {
         toast({
@@ -127,6 +235,12 @@ export function ChurchMappingConfig({ mappings, onMappingsChange }: ChurchMappin
     reader.readAsText(file);
   };
 
+  // Codes that changed hands or have a validity period; rows already come in date order
+  const timeline = Array.from(
+    mappings.reduce((codes, mapping) => codes.set(mapping.cents, [...(codes.get(mapping.cents) || []), mapping]),
+      new Map<number, ChurchMapping[]>()),
+  ).filter(([, holders]) => holders.length > 1 || holders.some(h => h.validFrom || h.validTo));
+
   return (
     <Card>
       <CardHeader>
@@ -153,22 +267,43 @@ export function ChurchMappingConfig({ mappings, onMappingsChange }: ChurchMappin
           </div>
         </CardTitle>
         <CardDescription>
-          Configure qual igreja recebe doações baseado nos centavos do valor (ex.: ,01 → Igreja A)
+          Configure qual igreja recebe doações baseado nos centavos do valor (ex.: ,01 → Igreja A).
+          Uma igreja pode ter vários códigos: basta adicionar outro código com o mesmo nome.
+          Informe um período quando um código mudar de igreja; cada doação usa o mapeamento vigente na sua data.
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
+        <div className="w-full md:w-96 space-y-1">
+          <Label>Modo de código</Label>
+          <Select value={codingMode} onValueChange={(value) => changeCodingMode(value as CodingMode)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(CODING_MODE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {codingMode === 'threeDigit' && (
+            <p className="text-sm text-muted-foreground">
+              O último dígito dos reais entra no código: R$ 57,23 → código 723.
+            </p>
+          )}
+        </div>
+
         {/* Add new mapping */}
         <div className="flex gap-4 items-end">
           <div className="flex-1">
-            <Label htmlFor="cents">Centavos (00-99)</Label>
+            <Label htmlFor="cents">{codingMode === 'threeDigit' ? 'Código (000-999)' : 'Centavos (00-99)'}</Label>
             <Input
               id="cents"
               type="number"
               min="0"
-              max="99"
+              max={MAX_CODE[codingMode]}
               value={newCents}
               onChange={(e) => setNewCents(e.target.value)}
-              placeholder="01"
+              placeholder={codingMode === 'threeDigit' ? '723' : '01'}
             />
           </div>
           <div className="flex-2">
@@ -180,6 +315,24 @@ export function ChurchMappingConfig({ mappings, onMappingsChange }: ChurchMappin
               placeholder="Igreja Exemplo"
             />
           </div>
+          <div>
+            <Label htmlFor="valid-from">Válido de</Label>
+            <Input
+              id="valid-from"
+              type="date"
+              value={newValidFrom}
+              onChange={(e) => setNewValidFrom(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="valid-to">Válido até</Label>
+            <Input
+              id="valid-to"
+              type="date"
+              value={newValidTo}
+              onChange={(e) => setNewValidTo(e.target.value)}
+            />
+          </div>
           <Button onClick={addMapping}>
             <Plus className="h-4 w-4 mr-2" />
             Adicionar
@@ -192,25 +345,43 @@ export function ChurchMappingConfig({ mappings, onMappingsChange }: ChurchMappin
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Centavos</TableHead>
                   <TableHead>Igreja</TableHead>
+                  <TableHead>Códigos</TableHead>
                   <TableHead className="w-20">Ações</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {mappings.map((mapping) => (
-                  <TableRow key={mapping.cents}>
+                {churches.map((church) => (
+                  <TableRow key={church.name}>
+                    <TableCell className="font-medium">{church.name}</TableCell>
                     <TableCell>
-                      <Badge variant="outline">
-                        ,{mapping.cents.toString().padStart(2, '0')}
-                      </Badge>
+                      <div className="flex flex-wrap gap-2">
+                        {mappings.filter(m => m.churchName === church.name).map((mapping) => (
+                          <Badge key={`${mapping.cents}-${mapping.validFrom || ''}`} variant="outline" className="gap-1">
+                            {highRiskCodes.includes(mapping.cents) && (
+                              <AlertTriangle className="h-3 w-3 text-destructive" aria-label="Risco alto de colisão" />
+                            )}
+                            {formatCodeLabel(mapping.cents, codingMode)}
+                            {formatPeriod(mapping) && (
+                              <span className="font-normal text-muted-foreground">{formatPeriod(mapping)}</span>
+                            )}
+                            <button
+                              type="button"
+                              aria-label="Remover código"
+                              className="ml-1 text-muted-foreground hover:text-destructive"
+                              onClick={() => removeMapping(mapping)}
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          </Badge>
+                        ))}
+                      </div>
                     </TableCell>
-                    <TableCell className="font-medium">{mapping.churchName}</TableCell>
                     <TableCell>
                       <Button
                         variant="ghost"
                         size="sm"
-                        onClick={() => removeMapping(mapping.cents)}
+                        onClick={() => removeChurch(church.name)}
                       >
                         <Trash2 className="h-4 w-4" />
                       </Button>
@@ -222,6 +393,96 @@ export function ChurchMappingConfig({ mappings, onMappingsChange }: ChurchMappin
           </div>
         )}
 
+        {/* Timeline of the codes that changed hands */}
+        {timeline.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold">Linha do tempo dos códigos</h3>
+            {timeline.map(([cents, holders]) => (
+              <div key={cents} className="flex flex-wrap items-center gap-2 text-sm">
+                <Badge variant="outline">{formatCodeLabel(cents, codingMode)}</Badge>
+                {holders.map((holder, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    {index > 0 && <ArrowRight className="h-4 w-4 text-muted-foreground" />}
+                    <span className="font-medium">{holder.churchName}</span>
+                    <span className="text-muted-foreground">{formatPeriod(holder) || 'sempre'}</span>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Collision risk of the configured codes */}
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold">Risco de colisão dos códigos</h3>
+          {!hasRiskEstimate ? (
+            <p className="text-sm text-muted-foreground">
+              Importe extratos com pelo menos {MIN_SAMPLE_SIZE} doações para estimar com que frequência
+              valores comuns caem em cada código ({collisionReport.sampleSize} até agora).
+            </p>
+          ) : (
+            <>
+              {highRiskCodes.length > 0 && (
+                <div className="flex items-start gap-2 rounded-lg border border-destructive/50 p-3 text-sm text-destructive">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                  <span>
+                    {highRiskCodes.map(code => formatCodeLabel(code, codingMode)).join(', ')}{' '}
+                    {highRiskCodes.length === 1 ? 'coincide' : 'coincidem'} com frequência com valores comuns;
+                    doações com {highRiskCodes.length === 1 ? 'este código' : 'estes códigos'} podem não ser intencionais.
+                    Considere trocar por um código sugerido.
+                  </span>
+                </div>
+              )}
+
+              {configuredCodes.length > 0 && (
+                <div className="border rounded-lg">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Código</TableHead>
+                        <TableHead className="text-right">Doações no histórico</TableHead>
+                        <TableHead className="text-right">Falsos positivos estimados</TableHead>
+                        <TableHead>Risco</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {configuredCodes.map(code => {
+                        const risk = collisionReport.risks[code];
+                        return (
+                          <TableRow key={code}>
+                            <TableCell>{formatCodeLabel(code, codingMode)}</TableCell>
+                            <TableCell className="text-right">{risk.historicalCount}</TableCell>
+                            <TableCell className="text-right">{formatRate(risk.falsePositiveRate)}</TableCell>
+                            <TableCell>
+                              <Badge variant={RISK_BADGE_VARIANTS[risk.level]}>{RISK_LEVEL_LABELS[risk.level]}</Badge>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-muted-foreground">
+                  Códigos livres com menos colisões (de {collisionReport.sampleSize} doações):
+                </span>
+                {collisionReport.suggestions.map(code => (
+                  <Badge
+                    key={code}
+                    variant="secondary"
+                    className="cursor-pointer"
+                    onClick={() => setNewCents(padCode(code, codingMode))}
+                  >
+                    {formatCodeLabel(code, codingMode)}
+                  </Badge>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
         {mappings.length === 0 && (
           <div className="text-center py-8 text-muted-foreground">
             Nenhum mapeamento configurado. Adicione mapeamentos para começar.
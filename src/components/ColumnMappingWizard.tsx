@@ -0,0 +1,188 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Columns3 } from 'lucide-react';
+import { ColumnRole, DateFormat } from '@/types/donation';
+import { hasRequiredColumns } from '@/utils/columnProfiles';
+import { DATE_FORMAT_LABELS, inferDateFormat } from '@/utils/dateFormat';
+
+const ROLE_LABELS: Record<ColumnRole, string> = {
+  date: 'Data',
+  amount: 'Valor',
+  credit: 'Entrada (crédito)',
+  debit: 'Saída (débito)',
+  indicator: 'Indicador D/C',
+  donor: 'Doador',
+  description: 'Descrição',
+  type: 'Tipo',
+};
+
+// Besides the date, an amount or a credit/debit column is needed (see hasRequiredColumns)
+const REQUIRED_ROLES: ColumnRole[] = ['date'];
+
+const NONE = 'none';
+
+interface ColumnMappingWizardProps {
+  headers: string[];
+  previewRows: string[][];
+  suggestedColumns: Partial<Record<ColumnRole, number>>;
+  /** Format inferred from the whole date column, when the processor got that far */
+  inferredDateFormat: DateFormat | 'ambiguous' | null;
+  onConfirm: (columns: Partial<Record<ColumnRole, number>>, dateFormat?: DateFormat) => void;
+  onCancel: () => void;
+}
+
+export function ColumnMappingWizard({
+  headers,
+  previewRows,
+  suggestedColumns,
+  inferredDateFormat,
+  onConfirm,
+  onCancel,
+}: ColumnMappingWizardProps) {
+  const [columns, setColumns] = useState<Partial<Record<ColumnRole, number>>>(suggestedColumns);
+  const [chosenDateFormat, setChosenDateFormat] = useState<DateFormat | undefined>();
+
+  // Without a full-column inference, infer from the preview of the picked date column
+  const detectedDateFormat = inferredDateFormat ?? (columns.date !== undefined
+    ? inferDateFormat(previewRows.map(row => row[columns.date as number]))
+    : null);
+  const dateFormat = chosenDateFormat ?? (detectedDateFormat !== 'ambiguous' ? detectedDateFormat ?? undefined : undefined);
+
+  const setRoleColumn = (role: ColumnRole, value: string) => {
+    const next = { ...columns };
+    // A column can only play one role
+    for (const other of Object.keys(next) as ColumnRole[]) {
+      if (next[other] === Number(value)) delete next[other];
+    }
+    if (value === NONE) {
+      delete next[role];
+    } else {
+      next[role] = Number(value);
+    }
+    setColumns(next);
+  };
+
+  const roleForColumn = (index: number) =>
+    (Object.keys(columns) as ColumnRole[]).find(role => columns[role] === index);
+
+  const canConfirm = hasRequiredColumns(columns) && (detectedDateFormat !== 'ambiguous' || dateFormat !== undefined);
+
+  return (
+    <Card className="border-warning">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Columns3 className="h-5 w-5 mr-2 text-warning" />
+          Mapeamento de Colunas
+        </CardTitle>
+        <CardDescription>
+          Não reconhecemos automaticamente as colunas deste extrato. Indique o que cada coluna contém
+          (valor único ou colunas separadas de entrada e saída); a escolha será lembrada para arquivos
+          com o mesmo cabeçalho.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {(Object.keys(ROLE_LABELS) as ColumnRole[]).map(role => (
+            <div key={role} className="space-y-1">
+              <Label>
+                {ROLE_LABELS[role]}
+                {REQUIRED_ROLES.includes(role) && <span className="text-destructive"> *</span>}
+              </Label>
+              <Select
+                value={columns[role] !== undefined ? String(columns[role]) : NONE}
+                onValueChange={(value) => setRoleColumn(role, value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>— Nenhuma —</SelectItem>
+                  {headers.map((header, index) => (
+                    <SelectItem key={index} value={String(index)}>
+                      {header || `Coluna ${index + 1}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <div className="w-full md:w-64 space-y-1">
+            <Label>
+              Formato das datas
+              {detectedDateFormat === 'ambiguous' && <span className="text-destructive"> *</span>}
+            </Label>
+            <Select
+              value={dateFormat ?? NONE}
+              onValueChange={(value) => setChosenDateFormat(value === NONE ? undefined : value as DateFormat)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>— Escolha —</SelectItem>
+                {(Object.keys(DATE_FORMAT_LABELS) as DateFormat[]).map(format => (
+                  <SelectItem key={format} value={format}>
+                    {DATE_FORMAT_LABELS[format]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {detectedDateFormat === 'ambiguous' ? (
+            <Badge variant="destructive" className="w-fit">
+              Formato ambíguo: nenhuma data prova se o dia vem antes do mês
+            </Badge>
+          ) : detectedDateFormat && (
+            <Badge variant="secondary" className="w-fit">
+              Formato detectado: {DATE_FORMAT_LABELS[detectedDateFormat]}
+            </Badge>
+          )}
+        </div>
+
+        <div className="border rounded-lg max-h-80 overflow-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {headers.map((header, index) => {
+                  const role = roleForColumn(index);
+                  return (
+                    <TableHead key={index} className="whitespace-nowrap">
+                      <div>{header || `Coluna ${index + 1}`}</div>
+                      {role && <Badge variant="secondary">{ROLE_LABELS[role]}</Badge>}
+                    </TableHead>
+                  );
+                })}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {previewRows.map((row, rowIndex) => (
+                <TableRow key={rowIndex}>
+                  {row.map((cell, cellIndex) => (
+                    <TableCell key={cellIndex} className="whitespace-nowrap">{cell}</TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onCancel}>
+            Cancelar
+          </Button>
+          <Button onClick={() => onConfirm(columns, chosenDateFormat)} disabled={!canConfirm}>
+            Salvar e processar
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,93 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { BankProfileSelect } from '@/components/BankProfileSelect';
+import { SheetPicker } from '@/components/SheetPicker';
+import { File, Files, X } from 'lucide-react';
+import { BankProfile, FileStatus, SheetInfo } from '@/types/donation';
+
+/** A file waiting in the upload list, with the options picked for it */
+export interface BatchFile {
+  file: File;
+  sheets: SheetInfo[];
+  selectedSheets: string[];
+  bankProfileId: string;
+  suggestedBankProfile: BankProfile | null;
+  status: FileStatus;
+  statusMessage?: string;
+}
+
+const STATUS_LABELS: Record<FileStatus, string> = {
+  pending: 'Aguardando',
+  processing: 'Processando',
+  done: 'Processado',
+  error: 'Erro',
+};
+
+const STATUS_VARIANTS: Record<FileStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  processing: 'secondary',
+  done: 'default',
+  error: 'destructive',
+};
+
+interface FileBatchListProps {
+  files: BatchFile[];
+  disabled?: boolean;
+  onFileChange: (index: number, changes: Partial<BatchFile>) => void;
+  onRemove: (index: number) => void;
+}
+
+export function FileBatchList({ files, disabled = false, onFileChange, onRemove }: FileBatchListProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Files className="h-5 w-5 mr-2 text-primary" />
+          Arquivos Selecionados ({files.length})
+        </CardTitle>
+        <CardDescription>
+          Os arquivos são processados juntos em um único resultado, com duplicatas detectadas entre eles
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {files.map((batchFile, index) => (
+          <div key={`${batchFile.file.name}-${batchFile.file.size}`} className="border rounded-lg p-4 space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3 min-w-0">
+                <File className="h-8 w-8 text-primary shrink-0" />
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{batchFile.file.name}</p>
+                  <p className="text-sm text-muted-foreground truncate">
+                    {(batchFile.file.size / 1024 / 1024).toFixed(2)} MB
+                    {batchFile.statusMessage && ` · ${batchFile.statusMessage}`}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Badge variant={STATUS_VARIANTS[batchFile.status]}>{STATUS_LABELS[batchFile.status]}</Badge>
+                <Button variant="outline" size="sm" onClick={() => onRemove(index)} disabled={disabled}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <BankProfileSelect
+              value={batchFile.bankProfileId}
+              suggestedProfile={batchFile.suggestedBankProfile}
+              onValueChange={(bankProfileId) => onFileChange(index, { bankProfileId })}
+            />
+
+            {batchFile.sheets.length > 1 && (
+              <SheetPicker
+                sheets={batchFile.sheets}
+                selectedSheets={batchFile.selectedSheets}
+                onSelectionChange={(selectedSheets) => onFileChange(index, { selectedSheets })}
+              />
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
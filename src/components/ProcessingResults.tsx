@@ -1,41 +1,74 @@
+import { Fragment, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Download, TrendingUp, Users, AlertTriangle } from 'lucide-react';
-import { ProcessedDonation, ChurchSummary } from '@/types/donation';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, TrendingUp, Users, AlertTriangle, ChevronDown, ChevronRight } from 'lucide-react';
+import { ProcessedDonation, ChurchSummary, CategorySummary, CodingMode, RejectedRow } from '@/types/donation';
+import { formatLocalDate } from '@/utils/localDate';
+import { TRANSACTION_CATEGORY_LABELS } from '@/utils/transactionClassifier';
+import { averageMoney, formatMoney } from '@/utils/money';
+import { formatCodeLabel } from '@/utils/churches';
+import { REVIEW_STATUS_LABELS } from '@/utils/confidence';
 
 interface ProcessingResultsProps {
   donations: ProcessedDonation[];
   summary: ChurchSummary[];
   unmappedDonations: ProcessedDonation[];
+  refunds: ProcessedDonation[];
+  otherTransactions: ProcessedDonation[];
+  categorySummary: CategorySummary[];
+  rejectedRows: RejectedRow[];
+  codingMode: CodingMode;
+  /** Churches a donation in review can be reassigned to */
+  churchNames: string[];
+  onConfirmReview: (donation: ProcessedDonation) => void;
+  onReassignReview: (donation: ProcessedDonation, churchName: string) => void;
   onDownloadDetailed: () => void;
   onDownloadSummary: () => void;
   onDownloadUnmapped: () => void;
+  onDownloadRefunds: () => void;
+  onDownloadOther: () => void;
+  onDownloadRejected: () => void;
 }
 
 export function ProcessingResults({ 
   donations, 
   summary, 
   unmappedDonations, 
+  refunds,
+  otherTransactions,
+  categorySummary,
+  rejectedRows,
+  codingMode,
+  churchNames,
+  onConfirmReview,
+  onReassignReview,
   onDownloadDetailed, 
   onDownloadSummary, 
-  onDownloadUnmapped 
+  onDownloadUnmapped,
+  onDownloadRefunds,
+  onDownloadOther,
+  onDownloadRejected
 }: ProcessingResultsProps) {
+  const [expandedChurch, setExpandedChurch] = useState<string | null>(null);
   const totalAmount = summary.reduce((sum, church) => sum + church.total, 0);
   const totalDonations = summary.reduce((sum, church) => sum + church.count, 0);
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('pt-BR', {
-      style: 'currency',
-      currency: 'BRL',
-    }).format(value);
+  const formatDate = (donation: Pick<ProcessedDonation, 'date' | 'time'>) => {
+    return formatLocalDate(donation.date, donation.time);
   };
 
-  const formatDate = (date: Date) => {
-    return new Intl.DateTimeFormat('pt-BR').format(date);
-  };
+  // Pending first; settled ones stay listed so a decision can be checked
+  const reviewQueue = donations
+    .filter(d => d.reviewStatus)
+    .sort((a, b) => Number(a.reviewStatus !== 'pending') - Number(b.reviewStatus !== 'pending'));
+  const pendingReviewCount = reviewQueue.filter(d => d.reviewStatus === 'pending').length;
+
+  // Unmatched refunds first: they are the ones waiting for the treasurer
+  const sortedRefunds = [...refunds].sort((a, b) => Number(!!a.refundedDonation) - Number(!!b.refundedDonation));
 
   return (
     <div className="space-y-6">
@@ -45,7 +78,7 @@ export function ProcessingResults({
           <CardContent className="flex items-center p-6">
             <TrendingUp className="h-8 w-8 text-primary mr-4" />
             <div>
-              <p className="text-2xl font-bold">{formatCurrency(totalAmount)}</p>
+              <p className="text-2xl font-bold">{formatMoney(totalAmount)}</p>
               <p className="text-muted-foreground">Total arrecadado</p>
             </div>
           </CardContent>
@@ -74,10 +107,14 @@ export function ProcessingResults({
 
       {/* Detailed Results */}
       <Tabs defaultValue="summary" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-7">
           <TabsTrigger value="summary">Resumo por Igreja</TabsTrigger>
+          <TabsTrigger value="review">Revisar ({pendingReviewCount})</TabsTrigger>
           <TabsTrigger value="detailed">Doações Detalhadas</TabsTrigger>
           <TabsTrigger value="unmapped">Não Mapeadas</TabsTrigger>
+          <TabsTrigger value="refunds">Estornos ({refunds.length})</TabsTrigger>
+          <TabsTrigger value="other">Outros lançamentos ({otherTransactions.length})</TabsTrigger>
+          <TabsTrigger value="rejected">Linhas ignoradas ({rejectedRows.length})</TabsTrigger>
         </TabsList>
 
         <TabsContent value="summary" className="space-y-4">
@@ -86,7 +123,7 @@ export function ProcessingResults({
               <div>
                 <CardTitle>Resumo por Igreja</CardTitle>
                 <CardDescription>
-                  Total arrecadado e número de doações por igreja
+                  Total bruto, estornos e líquido arrecadado por igreja; clique em uma igreja para ver o total de cada código
                 </CardDescription>
               </div>
               <Button onClick={onDownloadSummary}>
@@ -99,36 +136,166 @@ export function ProcessingResults({
                 <TableHeader>
                   <TableRow>
                     <TableHead>Igreja</TableHead>
-                    <TableHead>Centavos</TableHead>
-                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead>Códigos</TableHead>
+                    <TableHead className="text-right">Bruto</TableHead>
+                    <TableHead className="text-right">Estornos</TableHead>
+                    <TableHead className="text-right">Líquido</TableHead>
                     <TableHead className="text-right">Doações</TableHead>
                     <TableHead className="text-right">Média</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {summary.map((church) => (
-                    <TableRow key={church.churchName}>
-                      <TableCell className="font-medium">{church.churchName}</TableCell>
-                      <TableCell>
-                        <Badge variant="outline">
-                          ,{church.cents.toString().padStart(2, '0')}
-                        </Badge>
-                      </TableCell>
-                      <TableCell className="text-right font-semibold">
-                        {formatCurrency(church.total)}
-                      </TableCell>
-                      <TableCell className="text-right">{church.count}</TableCell>
-                      <TableCell className="text-right">
-                        {formatCurrency(church.total / church.count)}
-                      </TableCell>
-                    </TableRow>
-                  ))}
+                  {summary.map((church) => {
+                    const isExpanded = expandedChurch === church.churchName;
+                    const codeTotals = new Map(church.byCode.map(code => [code.cents, code.total]));
+
+                    return (
+                      <Fragment key={church.churchName}>
+                        <TableRow
+                          className="cursor-pointer"
+                          onClick={() => setExpandedChurch(isExpanded ? null : church.churchName)}
+                        >
+                          <TableCell className="font-medium">
+                            <div className="flex items-center">
+                              {isExpanded
+                                ? <ChevronDown className="h-4 w-4 mr-2" />
+                                : <ChevronRight className="h-4 w-4 mr-2" />}
+                              {church.churchName}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              {church.codes.map(cents => (
+                                <Badge key={cents} variant="outline">
+                                  {formatCodeLabel(cents, codingMode)}
+                                  {codeTotals.has(cents) && (
+                                    <span className="ml-1 font-normal text-muted-foreground">
+                                      {formatMoney(codeTotals.get(cents) as number)}
+                                    </span>
+                                  )}
+                                </Badge>
+                              ))}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">{formatMoney(church.gross)}</TableCell>
+                          <TableCell className="text-right text-destructive">
+                            {church.refunds > 0 ? `-${formatMoney(church.refunds)}` : '-'}
+                          </TableCell>
+                          <TableCell className="text-right font-semibold">
+                            {formatMoney(church.total)}
+                          </TableCell>
+                          <TableCell className="text-right">{church.count}</TableCell>
+                          <TableCell className="text-right">
+                            {formatMoney(averageMoney(church.total, church.count))}
+                          </TableCell>
+                        </TableRow>
+                        {isExpanded && church.byCode.map(code => (
+                          <TableRow key={code.cents ?? 'rules'} className="bg-muted/50 text-sm">
+                            <TableCell />
+                            <TableCell>
+                              <Badge variant="secondary">{formatCodeLabel(code.cents, codingMode)}</Badge>
+                            </TableCell>
+                            <TableCell className="text-right">{formatMoney(code.gross)}</TableCell>
+                            <TableCell className="text-right text-destructive">
+                              {code.refunds > 0 ? `-${formatMoney(code.refunds)}` : '-'}
+                            </TableCell>
+                            <TableCell className="text-right">{formatMoney(code.total)}</TableCell>
+                            <TableCell className="text-right">{code.count}</TableCell>
+                            <TableCell className="text-right">
+                              {formatMoney(averageMoney(code.total, code.count))}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </Fragment>
+                    );
+                  })}
                 </TableBody>
               </Table>
             </CardContent>
           </Card>
         </TabsContent>
 
+        <TabsContent value="review" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Revisar Atribuições</CardTitle>
+              <CardDescription>
+                Doações atribuídas com baixa confiança. Elas só entram no resumo depois de confirmadas ou reatribuídas.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {reviewQueue.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  Todas as atribuições têm confiança suficiente.
+                </div>
+              ) : (
+                <div className="max-h-96 overflow-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Data</TableHead>
+                        <TableHead>Doador</TableHead>
+                        <TableHead>Valor</TableHead>
+                        <TableHead>Igreja</TableHead>
+                        <TableHead>Confiança</TableHead>
+                        <TableHead>Ações</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {reviewQueue.map((donation, index) => (
+                        <TableRow key={donation.fingerprint || index}>
+                          <TableCell>{formatDate(donation)}</TableCell>
+                          <TableCell>{donation.donorName || '-'}</TableCell>
+                          <TableCell className="font-semibold">
+                            {formatMoney(donation.amount)}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="secondary">{donation.assignedChurch}</Badge>
+                            {donation.assignedBy && (
+                              <div className="text-xs text-muted-foreground mt-1">
+                                {donation.assignedBy.description}
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <div className="font-medium">{Math.round((donation.confidence ?? 0) * 100)}%</div>
+                            {donation.confidenceFactors?.map((factor, factorIndex) => (
+                              <div key={factorIndex} className="text-xs text-warning">{factor}</div>
+                            ))}
+                          </TableCell>
+                          <TableCell>
+                            {donation.reviewStatus === 'pending' ? (
+                              <div className="flex items-center gap-2">
+                                <Button size="sm" onClick={() => onConfirmReview(donation)}>
+                                  Confirmar
+                                </Button>
+                                <Select onValueChange={(churchName) => onReassignReview(donation, churchName)}>
+                                  <SelectTrigger className="w-44">
+                                    <SelectValue placeholder="Reatribuir..." />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {churchNames
+                                      .filter(name => name !== donation.assignedChurch)
+                                      .map(name => (
+                                        <SelectItem key={name} value={name}>{name}</SelectItem>
+                                      ))}
+                                  </SelectContent>
+                                </Select>
+                              </div>
+                            ) : donation.reviewStatus && (
+                              <Badge variant="outline">{REVIEW_STATUS_LABELS[donation.reviewStatus]}</Badge>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="detailed" className="space-y-4">
           <Card>
             <CardHeader className="flex flex-row items-center justify-between">
@@ -158,15 +325,28 @@ export function ProcessingResults({
                   <TableBody>
                     {donations.slice(0, 100).map((donation, index) => (
                       <TableRow key={index}>
-                        <TableCell>{formatDate(donation.date)}</TableCell>
-                        <TableCell>{donation.donorName || '-'}</TableCell>
+                        <TableCell>{formatDate(donation)}</TableCell>
+                        <TableCell>
+                          <div>{donation.donorName || '-'}</div>
+                          {donation.pix?.document && (
+                            <div className="text-xs text-muted-foreground">{donation.pix.document}</div>
+                          )}
+                        </TableCell>
                         <TableCell className="font-semibold">
-                          {formatCurrency(donation.amount)}
+                          {formatMoney(donation.amount)}
                         </TableCell>
                         <TableCell>
                           <Badge variant="secondary">
                             {donation.assignedChurch}
                           </Badge>
+                          {donation.assignedBy && (
+                            <div className="text-xs text-muted-foreground mt-1">
+                              {donation.assignedBy.description}
+                            </div>
+                          )}
+                          {donation.reviewStatus === 'pending' && (
+                            <div className="text-xs text-warning">{REVIEW_STATUS_LABELS.pending}</div>
+                          )}
                         </TableCell>
                         <TableCell className="max-w-xs truncate">
                           {donation.description || '-'}
@@ -214,25 +394,233 @@ export function ProcessingResults({
                         <TableHead>Data</TableHead>
                         <TableHead>Doador</TableHead>
                         <TableHead>Valor</TableHead>
-                        <TableHead>Centavos</TableHead>
+                        <TableHead>Código</TableHead>
                         <TableHead>Descrição</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
                       {unmappedDonations.map((donation, index) => (
                         <TableRow key={index}>
-                          <TableCell>{formatDate(donation.date)}</TableCell>
-                          <TableCell>{donation.donorName || '-'}</TableCell>
+                          <TableCell>{formatDate(donation)}</TableCell>
+                          <TableCell>
+                          <div>{donation.donorName || '-'}</div>
+                          {donation.pix?.document && (
+                            <div className="text-xs text-muted-foreground">{donation.pix.document}</div>
+                          )}
+                        </TableCell>
                           <TableCell className="font-semibold">
-                            {formatCurrency(donation.amount)}
+                            {formatMoney(donation.amount)}
                           </TableCell>
                           <TableCell>
                             <Badge variant="destructive">
-                              ,{Math.floor((donation.amount * 100) % 100).toString().padStart(2, '0')}
+                              {formatCodeLabel(donation.cents, codingMode)}
                             </Badge>
                           </TableCell>
-                          <TableCell className="max-w-xs truncate">
-                            {donation.description || '-'}
+                          <TableCell className="max-w-xs">
+                            <div className="truncate">{donation.description || '-'}</div>
+                            {donation.reviewReasons?.map((reason, reasonIndex) => (
+                              <div key={reasonIndex} className="text-xs text-warning">
+                                Revisar: {reason}
+                              </div>
+                            ))}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="refunds" className="space-y-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <div>
+                <CardTitle>Estornos</CardTitle>
+                <CardDescription>
+                  Estornos pareados com a doação original e os que precisam ser resolvidos manualmente
+                </CardDescription>
+              </div>
+              {refunds.length > 0 && (
+                <Button onClick={onDownloadRefunds}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download CSV
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent>
+              {refunds.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  Nenhum estorno encontrado no extrato.
+                </div>
+              ) : (
+                <div className="max-h-96 overflow-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Data</TableHead>
+                        <TableHead>Doador</TableHead>
+                        <TableHead>Valor</TableHead>
+                        <TableHead>Igreja</TableHead>
+                        <TableHead>Situação</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {sortedRefunds.map((refund, index) => (
+                        <TableRow key={index}>
+                          <TableCell>{formatDate(refund)}</TableCell>
+                          <TableCell>{refund.donorName || '-'}</TableCell>
+                          <TableCell className="font-semibold text-destructive">
+                            {formatMoney(refund.amount)}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="secondary">{refund.assignedChurch}</Badge>
+                          </TableCell>
+                          <TableCell>
+                            {refund.refundedDonation ? (
+                              <span className="text-sm text-muted-foreground">
+                                Doação de {formatDate(refund.refundedDonation)}
+                                {refund.refundedDonation.donorName && ` · ${refund.refundedDonation.donorName}`}
+                              </span>
+                            ) : (
+                              <Badge variant="destructive">Sem doação correspondente</Badge>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="other" className="space-y-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <div>
+                <CardTitle>Outros Lançamentos</CardTitle>
+                <CardDescription>
+                  Tarifas, rendimentos, transferências entre contas e demais lançamentos que não são doações
+                </CardDescription>
+              </div>
+              {otherTransactions.length > 0 && (
+                <Button onClick={onDownloadOther}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download CSV
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {otherTransactions.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  Todos os lançamentos do extrato foram reconhecidos como doações.
+                </div>
+              ) : (
+                <>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Categoria</TableHead>
+                        <TableHead className="text-right">Total</TableHead>
+                        <TableHead className="text-right">Lançamentos</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {categorySummary.map((category) => (
+                        <TableRow key={category.category}>
+                          <TableCell className="font-medium">{TRANSACTION_CATEGORY_LABELS[category.category]}</TableCell>
+                          <TableCell className="text-right font-semibold">{formatMoney(category.total)}</TableCell>
+                          <TableCell className="text-right">{category.count}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+
+                  <div className="max-h-96 overflow-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Data</TableHead>
+                          <TableHead>Categoria</TableHead>
+                          <TableHead>Valor</TableHead>
+                          <TableHead>Descrição</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {otherTransactions.slice(0, 100).map((transaction, index) => (
+                          <TableRow key={index}>
+                            <TableCell>{formatDate(transaction)}</TableCell>
+                            <TableCell>
+                              <Badge variant="outline">{TRANSACTION_CATEGORY_LABELS[transaction.category]}</Badge>
+                            </TableCell>
+                            <TableCell className="font-semibold">
+                              {formatMoney(transaction.amount)}
+                            </TableCell>
+                            <TableCell className="max-w-xs truncate">
+                              {transaction.description || transaction.transactionType || '-'}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                    {otherTransactions.length > 100 && (
+                      <p className="text-sm text-muted-foreground mt-2">
+                        Mostrando primeiros 100 lançamentos. Download completo via CSV.
+                      </p>
+                    )}
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="rejected" className="space-y-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <div>
+                <CardTitle>Linhas Ignoradas</CardTitle>
+                <CardDescription>
+                  Linhas do extrato que não puderam ser lidas como doação, com o motivo
+                </CardDescription>
+              </div>
+              {rejectedRows.length > 0 && (
+                <Button onClick={onDownloadRejected}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download CSV
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent>
+              {rejectedRows.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  Todas as linhas do extrato foram lidas.
+                </div>
+              ) : (
+                <div className="max-h-96 overflow-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Linha</TableHead>
+                        <TableHead>Motivo</TableHead>
+                        <TableHead>Conteúdo</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rejectedRows.map((row, index) => (
+                        <TableRow key={index}>
+                          <TableCell className="whitespace-nowrap">
+                            {[row.sourceFile, row.sourceSheet, row.rowNumber].filter(part => part !== undefined).join(' · ')}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="outline">{row.reason}</Badge>
+                          </TableCell>
+                          <TableCell className="max-w-md truncate font-mono text-xs">
+                            {row.cells.filter(Boolean).join(' | ')}
                           </TableCell>
                         </TableRow>
                       ))}
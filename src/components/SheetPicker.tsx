@@ -0,0 +1,66 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Sheet } from 'lucide-react';
+import { SheetInfo } from '@/types/donation';
+
+interface SheetPickerProps {
+  sheets: SheetInfo[];
+  selectedSheets: string[];
+  onSelectionChange: (sheetNames: string[]) => void;
+}
+
+export function SheetPicker({ sheets, selectedSheets, onSelectionChange }: SheetPickerProps) {
+  const allSelected = sheets.every(sheet => selectedSheets.includes(sheet.name));
+
+  const toggleSheet = (name: string, checked: boolean) => {
+    const next = checked
+      ? [...selectedSheets, name]
+      : selectedSheets.filter(s => s !== name);
+    // Keep workbook order so batches are processed predictably
+    onSelectionChange(sheets.map(s => s.name).filter(s => next.includes(s)));
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="flex items-center">
+            <Sheet className="h-5 w-5 mr-2 text-primary" />
+            Planilhas do Arquivo
+          </CardTitle>
+          <CardDescription>
+            Este arquivo tem {sheets.length} planilhas. Escolha quais devem ser processadas juntas.
+          </CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onSelectionChange(allSelected ? [] : sheets.map(s => s.name))}
+        >
+          {allSelected ? 'Limpar seleção' : 'Selecionar todas'}
+        </Button>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {sheets.map(sheet => (
+          <label
+            key={sheet.name}
+            className="flex items-center justify-between border rounded-lg p-3 cursor-pointer"
+          >
+            <div className="flex items-center space-x-3">
+              <Checkbox
+                checked={selectedSheets.includes(sheet.name)}
+                onCheckedChange={(checked) => toggleSheet(sheet.name, checked === true)}
+              />
+              <span className="font-medium">{sheet.name}</span>
+            </div>
+            <Badge variant={sheet.rowCount > 0 ? 'secondary' : 'outline'}>
+              {sheet.rowCount} linhas
+            </Badge>
+          </label>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
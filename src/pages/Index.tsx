@@ -1,14 +1,42 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { FileUpload } from '@/components/FileUpload';
-import { ChurchMappingConfig, ChurchMapping } from '@/components/ChurchMappingConfig';
+import { ChurchMappingConfig } from '@/components/ChurchMappingConfig';
+import { AssignmentRulesConfig } from '@/components/AssignmentRulesConfig';
 import { ProcessingResults } from '@/components/ProcessingResults';
+import { ColumnMappingWizard } from '@/components/ColumnMappingWizard';
+import { FileBatchList, BatchFile } from '@/components/FileBatchList';
+import { AUTO_BANK_PROFILE } from '@/components/BankProfileSelect';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
-import { DonationProcessor } from '@/utils/donationProcessor';
-import { ProcessedDonation, ChurchSummary, ProcessingStats } from '@/types/donation';
+import { DonationProcessor, ColumnMappingRequiredError, SUPPORTED_FILE_EXTENSIONS } from '@/utils/donationProcessor';
+import { loadColumnProfiles, saveColumnProfile } from '@/utils/columnProfiles';
+import { loadImportHistory, saveImportRecords } from '@/utils/importHistory';
+import { loadAssignmentRules, saveAssignmentRules } from '@/utils/assignmentRules';
+import { formatCodeLabel, padCode } from '@/utils/churches';
+import { DEFAULT_REVIEW_THRESHOLD, REVIEW_STATUS_LABELS } from '@/utils/confidence';
+import { startProcessingJob, ProcessingCancelledError, ProcessingJob } from '@/utils/processingWorker';
+import { formatLocalDate } from '@/utils/localDate';
+import { averageMoney, formatMoney } from '@/utils/money';
+import { DATE_FORMAT_LABELS } from '@/utils/dateFormat';
+import { TRANSACTION_CATEGORY_LABELS } from '@/utils/transactionClassifier';
+import {
+  AssignmentRule,
+  Church as ChurchConfig,
+  CodingMode,
+  ProcessedDonation,
+  ProcessingResult,
+  ProcessingProgress,
+  ProcessingStage,
+  ColumnProfile,
+  ColumnRole,
+  DateFormat,
+  ImportRecord,
+} from '@/types/donation';
 import { useToast } from '@/hooks/use-toast';
 import { 
   Church, 
@@ -16,35 +44,122 @@ import {
   TrendingUp, 
   CheckCircle, 
   AlertCircle,
-  Download
+  Download,
+  Landmark
 } from 'lucide-react';
 
+const STAGE_LABELS: Record<ProcessingStage, string> = {
+  reading: 'Lendo arquivo',
+  parsing: 'Lendo lançamentos',
+  mapping: 'Atribuindo igrejas',
+  summarizing: 'Gerando resumo',
+};
+
 const Index = () => {
-  const [mappings, setMappings] = useState<ChurchMapping[]>([
-    { cents: 1, churchName: 'Igreja Central' },
-    { cents: 2, churchName: 'Igreja Patagônia' },
-    { cents: 3, churchName: 'Igreja Ubis V' },
+  const [churches, setChurches] = useState<ChurchConfig[]>([
+    { name: 'Igreja Central', codes: [{ cents: 1 }] },
+    { name: 'Igreja Patagônia', codes: [{ cents: 2 }] },
+    { name: 'Igreja Ubis V', codes: [{ cents: 3 }] },
   ]);
+  const [codingMode, setCodingMode] = useState<CodingMode>('twoDigit');
+  // Percent, as typed in the input
+  const [reviewThreshold, setReviewThreshold] = useState(String(DEFAULT_REVIEW_THRESHOLD * 100));
+  const [rules, setRules] = useState<AssignmentRule[]>(loadAssignmentRules);
   
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [files, setFiles] = useState<BatchFile[]>([]);
+  // A new batch starts whenever the file list changes
+  const [batchId, setBatchId] = useState(() => Date.now().toString(36));
+  const [skipSeenLines, setSkipSeenLines] = useState(false);
+  const [importHistory, setImportHistory] = useState<ImportRecord[]>(loadImportHistory);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [processingProgress, setProcessingProgress] = useState(0);
-  const [results, setResults] = useState<{
-    donations: ProcessedDonation[];
-    summary: ChurchSummary[];
-    unmappedDonations: ProcessedDonation[];
-    stats: ProcessingStats;
-  } | null>(null);
+  const [processingProgress, setProcessingProgress] = useState<ProcessingProgress | null>(null);
+  const processingJob = useRef<ProcessingJob | null>(null);
+  const [results, setResults] = useState<ProcessingResult | null>(null);
+  const [columnProfiles, setColumnProfiles] = useState<ColumnProfile[]>(loadColumnProfiles);
+  const [pendingColumnMapping, setPendingColumnMapping] = useState<ColumnMappingRequiredError | null>(null);
   
   const { toast } = useToast();
 
-  const handleFileSelect = (file: File) => {
-    setSelectedFile(file);
+  const updateFile = (file: File, changes: Partial<BatchFile>) => {
+    setFiles(prev => prev.map(f => f.file === file ? { ...f, ...changes } : f));
+  };
+
+  const handleFilesSelect = async (selected: File[]) => {
+    // The same statement dropped twice would only show up as duplicates
+    const newFiles = selected.filter(file =>
+      !files.some(f => f.file.name === file.name && f.file.size === file.size)
+    );
+    if (newFiles.length === 0) return;
+
     setResults(null);
+    setPendingColumnMapping(null);
+    setBatchId(Date.now().toString(36));
+    setSkipSeenLines(false);
+    setFiles(prev => [
+      ...prev,
+      ...newFiles.map(file => ({
+        file,
+        sheets: [],
+        selectedSheets: [],
+        bankProfileId: AUTO_BANK_PROFILE,
+        suggestedBankProfile: null,
+        status: 'pending' as const,
+      })),
+    ]);
+
+    for (const file of newFiles) {
+      updateFile(file, { suggestedBankProfile: await DonationProcessor.suggestBankProfile(file) });
+
+      if (!/\.xlsx?$/i.test(file.name)) continue;
+
+      try {
+        const workbookSheets = await DonationProcessor.listSheets(file);
+        updateFile(file, {
+          sheets: workbookSheets,
+          selectedSheets: workbookSheets.slice(0, 1).map(s => s.name),
+        });
+      } catch (error) {
+        toast({
+          title: "Erro",
+          description: `Não foi possível ler as planilhas do arquivo ${file.name}`,
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
+  const handleRulesChange = (updated: AssignmentRule[]) => {
+    setRules(updated);
+    saveAssignmentRules(updated);
+  };
+
+  const handleFileChange = (index: number, changes: Partial<BatchFile>) => {
+    setFiles(prev => prev.map((f, i) => i === index ? { ...f, ...changes } : f));
   };
 
-  const processFile = async () => {
-    if (!selectedFile) {
+  const handleFileRemove = (index: number) => {
+    setFiles(prev => prev.filter((_, i) => i !== index));
+    setPendingColumnMapping(null);
+    setBatchId(Date.now().toString(36));
+    setSkipSeenLines(false);
+  };
+
+  const handleColumnMappingConfirm = (columns: Partial<Record<ColumnRole, number>>, dateFormat?: DateFormat) => {
+    if (!pendingColumnMapping) return;
+
+    const profiles = saveColumnProfile({
+      signature: pendingColumnMapping.signature,
+      headers: pendingColumnMapping.headers,
+      columns,
+      dateFormat,
+    });
+    setColumnProfiles(profiles);
+    setPendingColumnMapping(null);
+    processFiles(profiles);
+  };
+
+  const processFiles = async (profiles: ColumnProfile[] = columnProfiles, skipSeen = skipSeenLines) => {
+    if (files.length === 0) {
       toast({
         title: "Erro",
         description: "Selecione um arquivo primeiro",
@@ -53,61 +168,172 @@ const Index = () => {
       return;
     }
 
-    if (mappings.length === 0) {
+    const withoutSheets = files.find(f => f.sheets.length > 1 && f.selectedSheets.length === 0);
+    if (withoutSheets) {
+      toast({
+        title: "Erro",
+        description: `Selecione pelo menos uma planilha de ${withoutSheets.file.name}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (churches.length === 0 && rules.length === 0) {
       toast({
         title: "Erro", 
-        description: "Configure pelo menos um mapeamento de igreja",
+        description: "Configure pelo menos um mapeamento ou regra de igreja",
         variant: "destructive",
       });
       return;
     }
 
     setIsProcessing(true);
-    setProcessingProgress(0);
+    setProcessingProgress(null);
+    setFiles(prev => prev.map(f => ({ ...f, status: 'pending', statusMessage: undefined })));
 
     try {
-      const processor = new DonationProcessor(mappings);
-      
-      // Simulate progress
-      const progressInterval = setInterval(() => {
-        setProcessingProgress(prev => Math.min(prev + 10, 90));
-      }, 200);
+      const statements = files.map(f => ({
+        file: f.file,
+        sheetNames: f.selectedSheets,
+        bankProfileId: f.bankProfileId === AUTO_BANK_PROFILE ? f.suggestedBankProfile?.id : f.bankProfileId,
+      }));
+
+      const failedFiles: string[] = [];
+      processingJob.current = startProcessingJob(
+        {
+          churches,
+          options: {
+            columnProfiles: profiles,
+            importHistory,
+            batchId,
+            skipSeenLines: skipSeen,
+            rules,
+            codingMode,
+            reviewThreshold: (parseFloat(reviewThreshold) || 0) / 100,
+          },
+          statements,
+        },
+        {
+          onFileStatus: (index, status, statusMessage) => {
+            handleFileChange(index, { status, statusMessage });
+            if (status === 'error') failedFiles.push(files[index].file.name);
+          },
+          // Sheets of one workbook restart the parsing count; never move the bar backwards
+          onProgress: (progress) => setProcessingProgress(prev => ({
+            ...progress,
+            percent: Math.max(prev?.percent ?? 0, progress.percent),
+          })),
+        },
+      );
+      const result = await processingJob.current.promise;
 
-      const result = await processor.processExcelFile(selectedFile);
-      
-      clearInterval(progressInterval);
-      setProcessingProgress(100);
-      
       setResults(result);
       
       toast({
         title: "Sucesso",
         description: `${result.stats.totalProcessed} doações processadas com sucesso`,
       });
+
+      try {
+        setImportHistory(saveImportRecords(batchId, result.importRecords));
+      } catch (error) {
+        toast({
+          title: "Histórico não salvo",
+          description: error instanceof Error ? error.message : "Erro ao salvar o histórico de importações",
+          variant: "destructive",
+        });
+      }
+
+      if (failedFiles.length > 0) {
+        toast({
+          title: "Arquivos com erro",
+          description: `${failedFiles.join(', ')} não entraram no resultado. Veja o motivo na lista de arquivos.`,
+          variant: "destructive",
+        });
+      }
     } catch (error) {
+      if (error instanceof ProcessingCancelledError) {
+        setFiles(prev => prev.map(f => f.status === 'processing' ? { ...f, status: 'pending', statusMessage: undefined } : f));
+        toast({
+          title: "Processamento cancelado",
+          description: "Nenhum resultado foi gerado",
+        });
+        return;
+      }
+
+      if (error instanceof ColumnMappingRequiredError) {
+        setPendingColumnMapping(error);
+        toast({
+          title: "Mapeamento de colunas necessário",
+          description: error.fileName ? `${error.fileName}: ${error.message}` : error.message,
+        });
+        return;
+      }
+
       toast({
         title: "Erro",
         description: error instanceof Error ? error.message : "Erro ao processar arquivo",
         variant: "destructive",
       });
     } finally {
+      processingJob.current = null;
       setIsProcessing(false);
-      setProcessingProgress(0);
+      setProcessingProgress(null);
     }
   };
 
+  /** Settles a donation in review: confirmed as assigned, or moved to another church along with its refund. */
+  const resolveReview = (donation: ProcessedDonation, churchName?: string) => {
+    if (!results) return;
+
+    const resolved: ProcessedDonation = churchName
+      ? {
+        ...donation,
+        assignedChurch: churchName,
+        assignedBy: {
+          ruleId: 'manual',
+          ruleType: 'manual',
+          description: `Revisão manual (sugerida: ${donation.assignedChurch})`,
+        },
+        reviewStatus: 'reassigned',
+      }
+      : { ...donation, reviewStatus: 'confirmed' };
+
+    const donations = results.donations.map(d => d === donation ? resolved : d);
+    const refunds = results.refunds.map(r => donation.fingerprint && r.refundedDonation?.fingerprint === donation.fingerprint
+      ? { ...r, assignedChurch: resolved.assignedChurch, assignedBy: resolved.assignedBy }
+      : r);
+
+    setResults({
+      ...results,
+      donations,
+      refunds,
+      summary: DonationProcessor.generateSummary(donations, refunds, churches),
+      stats: { ...results.stats, pendingReviewCount: results.stats.pendingReviewCount - 1 },
+    });
+  };
+
   const downloadDetailed = () => {
     if (!results) return;
     
     const data = results.donations.map(d => ({
-      data: d.date.toLocaleDateString('pt-BR'),
+      data: formatLocalDate(d.date),
+      hora: d.time || '',
       doador: d.donorName || '',
-      valor: d.amount.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' }),
-      centavos: d.cents.toString().padStart(2, '0'),
+      documento_pagador: d.pix?.document || '',
+      banco_pagador: d.pix?.bank || '',
+      e2e_id: d.pix?.e2eId || '',
+      valor: formatMoney(d.amount),
+      centavos: padCode(d.cents, results.codingMode),
       igreja_atribuida: d.assignedChurch,
+      regra: d.assignedBy?.description || '',
+      confianca: d.confidence !== undefined ? `${Math.round(d.confidence * 100)}%` : '',
+      revisao_atribuicao: d.reviewStatus ? REVIEW_STATUS_LABELS[d.reviewStatus] : '',
       descricao: d.description || '',
       duplicata: d.isDuplicate ? 'Sim' : 'Não',
-      negativo: d.isNegative ? 'Sim' : 'Não',
+      estornada: d.refundedAmount ? 'Sim' : 'Não',
+      arquivo: d.sourceFile || '',
+      planilha: d.sourceSheet || '',
     }));
     
     DonationProcessor.exportToCSV(data, 'doacoes_detalhadas.csv');
@@ -118,10 +344,13 @@ const Index = () => {
     
     const data = results.summary.map(s => ({
       igreja: s.churchName,
-      centavos: s.cents.toString().padStart(2, '0'),
-      total: s.total.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' }),
+      centavos: s.codes.map(cents => padCode(cents, results.codingMode)).join(' '),
+      bruto: formatMoney(s.gross),
+      estornos: formatMoney(s.refunds),
+      liquido: formatMoney(s.total),
       quantidade_doacoes: s.count,
-      valor_medio: s.count > 0 ? (s.total / s.count).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' }) : 'R$ 0,00',
+      valor_medio: formatMoney(averageMoney(s.total, s.count)),
+      liquido_por_codigo: s.byCode.map(code => `${formatCodeLabel(code.cents, results.codingMode)} ${formatMoney(code.total)}`).join('; '),
     }));
     
     DonationProcessor.exportToCSV(data, 'resumo_por_igreja.csv');
@@ -131,16 +360,71 @@ const Index = () => {
     if (!results) return;
     
     const data = results.unmappedDonations.map(d => ({
-      data: d.date.toLocaleDateString('pt-BR'),
+      data: formatLocalDate(d.date),
+      hora: d.time || '',
       doador: d.donorName || '',
-      valor: d.amount.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' }),
-      centavos: d.cents.toString().padStart(2, '0'),
+      documento_pagador: d.pix?.document || '',
+      banco_pagador: d.pix?.bank || '',
+      valor: formatMoney(d.amount),
+      centavos: padCode(d.cents, results.codingMode),
       descricao: d.description || '',
+      revisao: (d.reviewReasons || []).join('; '),
+      arquivo: d.sourceFile || '',
     }));
     
     DonationProcessor.exportToCSV(data, 'doacoes_nao_mapeadas.csv');
   };
 
+  const downloadRefunds = () => {
+    if (!results) return;
+
+    const data = results.refunds.map(d => ({
+      data: formatLocalDate(d.date),
+      hora: d.time || '',
+      doador: d.donorName || '',
+      valor: formatMoney(d.amount),
+      igreja: d.assignedChurch,
+      regra: d.assignedBy?.description || '',
+      doacao_original: d.refundedDonation ? formatLocalDate(d.refundedDonation.date, d.refundedDonation.time) : '',
+      situacao: d.refundedDonation ? 'Pareado' : 'Sem doação correspondente',
+      descricao: d.description || '',
+      arquivo: d.sourceFile || '',
+    }));
+
+    DonationProcessor.exportToCSV(data, 'estornos.csv');
+  };
+
+  const downloadOther = () => {
+    if (!results) return;
+
+    const data = results.otherTransactions.map(d => ({
+      data: formatLocalDate(d.date),
+      hora: d.time || '',
+      categoria: TRANSACTION_CATEGORY_LABELS[d.category],
+      valor: formatMoney(d.amount),
+      tipo: d.transactionType || '',
+      descricao: d.description || '',
+      arquivo: d.sourceFile || '',
+      planilha: d.sourceSheet || '',
+    }));
+
+    DonationProcessor.exportToCSV(data, 'outros_lancamentos.csv');
+  };
+
+  const downloadRejected = () => {
+    if (!results) return;
+
+    const data = results.rejectedRows.map(r => ({
+      linha: r.rowNumber,
+      arquivo: r.sourceFile || '',
+      planilha: r.sourceSheet || '',
+      motivo: r.reason,
+      conteudo: r.cells.join(' | '),
+    }));
+
+    DonationProcessor.exportToCSV(data, 'linhas_ignoradas.csv');
+  };
+
   return (
     <div className="min-h-screen bg-background">
       <div className="container mx-auto px-4 py-8 max-w-7xl">
@@ -162,8 +446,17 @@ const Index = () => {
         <div className="space-y-8">
           {/* Church Mapping Configuration */}
           <ChurchMappingConfig 
-            mappings={mappings} 
-            onMappingsChange={setMappings} 
+            churches={churches}
+            onChurchesChange={setChurches}
+            codingMode={codingMode}
+            onCodingModeChange={setCodingMode}
+            importHistory={importHistory}
+          />
+
+          <AssignmentRulesConfig
+            rules={rules}
+            onRulesChange={handleRulesChange}
+            codingMode={codingMode}
           />
 
           <Separator />
@@ -172,38 +465,83 @@ const Index = () => {
           <div className="space-y-6">
             <div className="flex items-center space-x-3">
               <FileSpreadsheet className="h-6 w-6 text-primary" />
-              <h2 className="text-2xl font-semibold">Upload do Arquivo</h2>
+              <h2 className="text-2xl font-semibold">Upload dos Arquivos</h2>
             </div>
             
-            <FileUpload onFileSelect={handleFileSelect} />
-            
-            {selectedFile && (
+            <FileUpload
+              onFilesSelect={handleFilesSelect}
+              accept={SUPPORTED_FILE_EXTENSIONS.join(',')}
+              multiple
+            />
+
+            {files.length > 0 && (
+              <FileBatchList
+                files={files}
+                disabled={isProcessing}
+                onFileChange={handleFileChange}
+                onRemove={handleFileRemove}
+              />
+            )}
+
+            {files.length > 0 && (
               <div className="flex items-center justify-between">
                 <div className="flex items-center space-x-3">
                   <CheckCircle className="h-5 w-5 text-success" />
-                  <span>Arquivo pronto para processamento</span>
-                  <Badge variant="secondary">{mappings.length} igrejas configuradas</Badge>
+                  <span>{files.length > 1 ? `${files.length} arquivos prontos` : 'Arquivo pronto'} para processamento</span>
+                  <Badge variant="secondary">{churches.length} igrejas configuradas</Badge>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Label htmlFor="review-threshold" className="whitespace-nowrap">Confiança mínima (%)</Label>
+                  <Input
+                    id="review-threshold"
+                    type="number"
+                    min="0"
+                    max="100"
+                    className="w-20"
+                    value={reviewThreshold}
+                    onChange={(e) => setReviewThreshold(e.target.value)}
+                  />
                 </div>
                 <Button 
-                  onClick={processFile} 
+                  onClick={() => processFiles()} 
                   disabled={isProcessing}
                   size="lg"
                   className="min-w-32"
                 >
-                  {isProcessing ? 'Processando...' : 'Processar Arquivo'}
+                  {isProcessing ? 'Processando...' : files.length > 1 ? 'Processar Arquivos' : 'Processar Arquivo'}
                 </Button>
               </div>
             )}
 
+            {pendingColumnMapping && (
+              <ColumnMappingWizard
+                key={pendingColumnMapping.signature}
+                headers={pendingColumnMapping.headers}
+                previewRows={pendingColumnMapping.previewRows}
+                suggestedColumns={pendingColumnMapping.suggestedColumns}
+                inferredDateFormat={pendingColumnMapping.inferredDateFormat}
+                onConfirm={handleColumnMappingConfirm}
+                onCancel={() => setPendingColumnMapping(null)}
+              />
+            )}
+
             {isProcessing && (
               <Card>
                 <CardContent className="p-6">
                   <div className="space-y-3">
                     <div className="flex items-center justify-between">
-                      <span className="text-sm font-medium">Processando arquivo...</span>
-                      <span className="text-sm text-muted-foreground">{processingProgress}%</span>
+                      <span className="text-sm font-medium">
+                        {processingProgress ? STAGE_LABELS[processingProgress.stage] : 'Iniciando'}
+                        {processingProgress?.fileName && ` · ${processingProgress.fileName}`}...
+                      </span>
+                      <div className="flex items-center space-x-3">
+                        <span className="text-sm text-muted-foreground">{processingProgress?.percent ?? 0}%</span>
+                        <Button variant="outline" size="sm" onClick={() => processingJob.current?.cancel()}>
+                          Cancelar
+                        </Button>
+                      </div>
                     </div>
-                    <Progress value={processingProgress} className="w-full" />
+                    <Progress value={processingProgress?.percent ?? 0} className="w-full" />
                   </div>
                 </CardContent>
               </Card>
@@ -252,12 +590,102 @@ const Index = () => {
                   </Card>
                 </div>
 
+                {Object.values(results.metadata).some(v => v !== undefined) && (
+                  <Card>
+                    <CardContent className="p-4 flex flex-wrap items-center gap-2 text-sm">
+                      <Landmark className="h-5 w-5 text-primary mr-1" />
+                      {results.metadata.bankName && <Badge variant="outline">{results.metadata.bankName}</Badge>}
+                      {results.metadata.agency && <Badge variant="outline">Agência {results.metadata.agency}</Badge>}
+                      {results.metadata.accountNumber && <Badge variant="outline">Conta {results.metadata.accountNumber}</Badge>}
+                      {results.metadata.periodStart && (
+                        <Badge variant="outline">
+                          Período {formatLocalDate(results.metadata.periodStart)}
+                          {results.metadata.periodEnd && ` a ${formatLocalDate(results.metadata.periodEnd)}`}
+                        </Badge>
+                      )}
+                      {results.metadata.dateFormat && (
+                        <Badge variant="outline">Datas {DATE_FORMAT_LABELS[results.metadata.dateFormat]}</Badge>
+                      )}
+                      {results.metadata.openingBalance !== undefined && (
+                        <Badge variant="outline">
+                          Saldo anterior {formatMoney(results.metadata.openingBalance)}
+                        </Badge>
+                      )}
+                    </CardContent>
+                  </Card>
+                )}
+
+                {results.overlaps.length > 0 && (
+                  <Card className="border-warning">
+                    <CardContent className="p-4 space-y-3">
+                      <div className="flex items-center">
+                        <AlertCircle className="h-5 w-5 text-warning mr-3" />
+                        <span className="text-sm font-medium">
+                          {skipSeenLines
+                            ? `${results.stats.skippedSeenCount} lançamentos já importados anteriormente foram ignorados.`
+                            : 'Parte deste upload já foi importada antes. Os valores podem estar sendo contados em dobro.'}
+                        </span>
+                      </div>
+                      <ul className="text-sm text-muted-foreground space-y-1 ml-8">
+                        {results.overlaps.map(overlap => (
+                          <li key={overlap.fileName}>
+                            <strong>{overlap.fileName}</strong>:{' '}
+                            {overlap.sameFile ? 'arquivo idêntico já importado' : `${overlap.seenLines} de ${overlap.totalLines} lançamentos já importados`}
+                            {' '}em {overlap.previousImports
+                              .map(p => `${p.fileName} (${new Date(p.importedAt).toLocaleDateString('pt-BR')})`)
+                              .join(', ')}
+                          </li>
+                        ))}
+                      </ul>
+                      <div className="ml-8">
+                        {skipSeenLines ? (
+                          <Button variant="outline" size="sm" onClick={() => { setSkipSeenLines(false); processFiles(columnProfiles, false); }}>
+                            Incluir lançamentos já importados
+                          </Button>
+                        ) : (
+                          <Button variant="outline" size="sm" onClick={() => { setSkipSeenLines(true); processFiles(columnProfiles, true); }}>
+                            Ignorar lançamentos já importados
+                          </Button>
+                        )}
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {results.stats.reviewCount > 0 && (
+                  <Card className="border-warning">
+                    <CardContent className="p-4 flex items-center">
+                      <AlertCircle className="h-5 w-5 text-warning mr-3" />
+                      <span className="text-sm">
+                        <strong>{results.stats.reviewCount}</strong> doações precisam de revisão e não foram atribuídas
+                        automaticamente. Veja os motivos na aba "Não Mapeadas".
+                      </span>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {results.stats.pendingReviewCount > 0 && (
+                  <Card className="border-warning">
+                    <CardContent className="p-4 flex items-center">
+                      <AlertCircle className="h-5 w-5 text-warning mr-3" />
+                      <span className="text-sm">
+                        <strong>{results.stats.pendingReviewCount}</strong> atribuições com baixa confiança aguardam revisão
+                        na aba "Revisar". O resumo por igreja só será final depois que forem confirmadas ou reatribuídas.
+                      </span>
+                    </CardContent>
+                  </Card>
+                )}
+
                 {results.stats.negativeValuesFound > 0 && (
                   <Card className="border-warning">
                     <CardContent className="p-4 flex items-center">
                       <AlertCircle className="h-5 w-5 text-warning mr-3" />
                       <span className="text-sm">
-                        <strong>{results.stats.negativeValuesFound}</strong> valores negativos (estornos) foram encontrados e processados.
+                        <strong>{results.stats.negativeValuesFound}</strong> estornos foram encontrados e descontados das igrejas.
+                        {results.stats.unmatchedRefundCount > 0 && (
+                          <> <strong>{results.stats.unmatchedRefundCount}</strong> sem doação correspondente precisam ser
+                          resolvidos manualmente na aba "Estornos".</>
+                        )}
                       </span>
                     </CardContent>
                   </Card>
@@ -267,9 +695,20 @@ const Index = () => {
                   donations={results.donations}
                   summary={results.summary}
                   unmappedDonations={results.unmappedDonations}
+                  refunds={results.refunds}
+                  otherTransactions={results.otherTransactions}
+                  categorySummary={results.categorySummary}
+                  rejectedRows={results.rejectedRows}
+                  codingMode={results.codingMode}
+                  churchNames={churches.map(church => church.name)}
+                  onConfirmReview={(donation) => resolveReview(donation)}
+                  onReassignReview={resolveReview}
                   onDownloadDetailed={downloadDetailed}
                   onDownloadSummary={downloadSummary}
                   onDownloadUnmapped={downloadUnmapped}
+                  onDownloadRefunds={downloadRefunds}
+                  onDownloadOther={downloadOther}
+                  onDownloadRejected={downloadRejected}
                 />
               </div>
             </>
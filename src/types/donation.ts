@@ -1,21 +1,158 @@
+/** Calendar date as `YYYY-MM-DD`, deliberately free of any timezone */
+export type LocalDate = string;
+
+/** Amount in integer centavos, so sums never drift from the statement total */
+export type Money = number;
+
+/** Inclusive date range; an open end means "since always" or "until further notice" */
+export interface ValidityPeriod {
+  validFrom?: LocalDate;
+  validTo?: LocalDate;
+}
+
+/** Payer details read from a Pix credit's description */
+export interface PixPayer {
+  name?: string;
+  /** CPF masked as the bank prints it (***.123.456-**), or CNPJ */
+  document?: string;
+  /** End-to-end ID, unique per Pix transaction */
+  e2eId?: string;
+  /** Payer's institution, from the E2E ID */
+  bank?: string;
+}
+
 export interface RawDonation {
-  date: Date;
+  date: LocalDate;
+  /** Time of day as `HH:mm:ss`, when the statement provides one */
+  time?: string;
   donorName?: string;
-  amount: number;
+  amount: Money;
   description?: string;
+  /** Bank-assigned transaction id (OFX `FITID`) */
+  fitId?: string;
+  /** Transaction type as reported by the bank (OFX `TRNTYPE`) */
+  transactionType?: string;
+  /** Raw memo text (OFX `MEMO`) */
+  memo?: string;
+  pix?: PixPayer;
+  /** Hash identifying the line across imports, see `fingerprintLines` */
+  fingerprint?: string;
+  /** Name of the uploaded file the row was read from */
+  sourceFile?: string;
+  /** Workbook sheet the row was read from */
+  sourceSheet?: string;
+  /** Account number from the statement's header, when it names one */
+  sourceAccount?: string;
+  /** Why the row must be checked by a person before it is assigned to a church */
+  reviewReasons?: string[];
 }
 
+/**
+ * Which digits of an amount form the church code: the centavos (`x,07` → 7),
+ * or the last reais digit plus the centavos (`x7,23` → 723)
+ */
+export type CodingMode = 'twoDigit' | 'threeDigit';
+
+/** What a statement line is; only donations are assigned to churches */
+export type TransactionCategory = 'donation' | 'refund' | 'fee' | 'interest' | 'internalTransfer' | 'other';
+
+/** Where a low-confidence assignment stands in the treasurer's review */
+export type ReviewStatus = 'pending' | 'confirmed' | 'reassigned';
+
 export interface ProcessedDonation extends RawDonation {
+  category: TransactionCategory;
+  /** Church code the amount carries, per the `CodingMode` it was processed with */
   cents: number;
   assignedChurch: string;
+  /** The rule that picked `assignedChurch`, to explain the assignment */
+  assignedBy?: RuleAssignment;
+  /** How sure the assignment is, from 0 to 1; set on assigned donations only */
+  confidence?: number;
+  /** What lowered `confidence` */
+  confidenceFactors?: string[];
+  /** Set on assignments below the review threshold, which stay out of the summary while pending */
+  reviewStatus?: ReviewStatus;
   isDuplicate?: boolean;
   isNegative?: boolean;
+  /** On a donation: how much of it was refunded */
+  refundedAmount?: Money;
+  /** On a refund: the donation it reverses, when one was found */
+  refundedDonation?: Pick<RawDonation, 'date' | 'time' | 'amount' | 'donorName' | 'fingerprint'>;
+}
+
+/** A cents code, for the period its church holds it */
+export interface ChurchCode extends ValidityPeriod {
+  /** 0–99, or 0–999 in three-digit mode */
+  cents: number;
+}
+
+export interface Church {
+  name: string;
+  /** Every code that identifies the church's donations, possibly several */
+  codes: ChurchCode[];
+}
+
+export type AssignmentRuleType = 'donor' | 'keyword' | 'regex' | 'pixKey' | 'account' | 'amountRange' | 'cents';
+
+/**
+ * Assigns matching donations to a church; rules are tried by ascending
+ * `priority`, and only for donations dated within their validity period
+ */
+export interface AssignmentRule extends ValidityPeriod {
+  id: string;
+  type: AssignmentRuleType;
+  /** Donor name, keyword, regular expression, Pix key/document or account number, by `type` */
+  pattern?: string;
+  /** Inclusive bounds of an `amountRange` rule; either may be left open */
+  minAmount?: Money;
+  maxAmount?: Money;
+  /** Code of a `cents` rule */
+  cents?: number;
+  /** Digits a `cents` rule compares; two unless set */
+  codingMode?: CodingMode;
+  churchName: string;
+  priority: number;
+}
+
+export interface RuleAssignment {
+  ruleId: string;
+  /** `manual` when the treasurer reassigned the donation in review */
+  ruleType: AssignmentRuleType | 'manual';
+  /** Human-readable rule, e.g. `Doador: "Maria"` */
+  description: string;
+  /** Code a `cents` rule matched, in the rule's own coding mode */
+  cents?: number;
+}
+
+/** Totals of a church's donations that came in under one code */
+export interface CodeSummary {
+  /** Undefined for donations assigned by a rule other than cents */
+  cents?: number;
+  gross: Money;
+  refunds: Money;
+  total: Money;
+  count: number;
 }
 
 export interface ChurchSummary {
   churchName: string;
-  cents: number;
-  total: number;
+  /** Every cents code configured for the church */
+  codes: number[];
+  /** Donations before refunds */
+  gross: Money;
+  /** Refunds matched to the church's donations, as a positive amount */
+  refunds: Money;
+  /** Net: `gross - refunds` */
+  total: Money;
+  count: number;
+  /** How the totals split across the codes the donations carried */
+  byCode: CodeSummary[];
+}
+
+/** Non-donation lines grouped by category, totals signed as on the statement */
+export interface CategorySummary {
+  category: TransactionCategory;
+  total: Money;
   count: number;
 }
 
@@ -24,4 +161,168 @@ export interface ProcessingStats {
   duplicatesFound: number;
   negativeValuesFound: number;
   unmappedCount: number;
-}
\ No newline at end of file
+  unmatchedRefundCount: number;
+  reviewCount: number;
+  nonDonationCount: number;
+  /** Lines left out because an earlier import already had them */
+  skippedSeenCount: number;
+  /** Assignments below the confidence threshold, waiting for the treasurer */
+  pendingReviewCount: number;
+}
+
+/** Account details found in a statement's preamble (or OFX/CNAB headers) */
+export interface StatementMetadata {
+  bankName?: string;
+  bankCode?: string;
+  agency?: string;
+  accountNumber?: string;
+  periodStart?: LocalDate;
+  periodEnd?: LocalDate;
+  openingBalance?: Money;
+  /** Date format used to read the statement's date column */
+  dateFormat?: DateFormat;
+}
+
+export interface SheetInfo {
+  name: string;
+  rowCount: number;
+}
+
+/** A statement line that could not be turned into a donation, and why */
+export interface RejectedRow {
+  /** 1-based line/row number in the source file */
+  rowNumber: number;
+  cells: string[];
+  reason: string;
+  sourceFile?: string;
+  sourceSheet?: string;
+}
+
+export interface ParsedStatement {
+  donations: RawDonation[];
+  metadata: StatementMetadata;
+  rejectedRows: RejectedRow[];
+}
+
+/** A processed file, kept locally to recognise it (or its lines) when uploaded again */
+export interface ImportRecord {
+  /** Upload batch the file was processed in */
+  batchId: string;
+  fileName: string;
+  /** SHA-256 of the file's bytes */
+  fileHash: string;
+  /** ISO timestamp */
+  importedAt: string;
+  lineFingerprints: string[];
+  /** Donation credits by the last three digits of the amount (reais units + centavos); absent on older records */
+  amountEndings?: Record<number, number>;
+}
+
+export type CollisionRiskLevel = 'low' | 'medium' | 'high';
+
+/** How likely donations carrying a code are ordinary amounts rather than the code on purpose */
+export interface CodeRisk {
+  code: number;
+  /** Donations that carried the code in the imported statements */
+  historicalCount: number;
+  /** Estimated share (0–1) of the code's donations that are organic amounts */
+  falsePositiveRate: number;
+  level: CollisionRiskLevel;
+}
+
+export interface CollisionReport {
+  /** Donations the estimate is based on */
+  sampleSize: number;
+  /** Every code of the coding mode's range, by code */
+  risks: CodeRisk[];
+  /** Free codes with the fewest organic donations, best first */
+  suggestions: number[];
+}
+
+/** How much of an uploaded file earlier imports already covered */
+export interface ImportOverlap {
+  fileName: string;
+  /** The exact same file was imported before */
+  sameFile: boolean;
+  seenLines: number;
+  totalLines: number;
+  previousImports: Pick<ImportRecord, 'fileName' | 'importedAt'>[];
+}
+
+/** Progress of one file in a batch upload */
+export type FileStatus = 'pending' | 'processing' | 'done' | 'error';
+
+export type ProcessingStage = 'reading' | 'parsing' | 'mapping' | 'summarizing';
+
+export interface ProcessingProgress {
+  stage: ProcessingStage;
+  /** Overall progress of the job, 0–100 */
+  percent: number;
+  /** File being read or parsed */
+  fileName?: string;
+}
+
+export interface ProcessingResult {
+  donations: ProcessedDonation[];
+  summary: ChurchSummary[];
+  unmappedDonations: ProcessedDonation[];
+  /** Refunds, matched ones carrying the church of the donation they reverse */
+  refunds: ProcessedDonation[];
+  /** Fees, interest, internal transfers and other lines left out of the church mapping */
+  otherTransactions: ProcessedDonation[];
+  categorySummary: CategorySummary[];
+  stats: ProcessingStats;
+  /** Files of the batch that overlap earlier imports */
+  overlaps: ImportOverlap[];
+  /** What to store in the import history for this batch */
+  importRecords: ImportRecord[];
+  metadata: StatementMetadata;
+  rejectedRows: RejectedRow[];
+  /** How the codes in `cents` were read */
+  codingMode: CodingMode;
+}
+/**
+ * `credit`/`debit` cover statements with separate "Entrada"/"Saída" columns and
+ * `indicator` a "D"/"C" flag next to an unsigned amount.
+ */
+export type ColumnRole = 'date' | 'amount' | 'credit' | 'debit' | 'indicator' | 'donor' | 'description' | 'type';
+
+/**
+ * Which column holds each field of a statement, saved per header signature so a
+ * layout the user mapped once is recognised on the next import.
+ */
+export interface ColumnProfile {
+  signature: string;
+  headers: string[];
+  columns: Partial<Record<ColumnRole, number>>;
+  /** Chosen by the user when the date column alone could not tell */
+  dateFormat?: DateFormat;
+}
+
+export type DateFormat = 'dmy' | 'mdy' | 'ymd';
+
+/**
+ * How a statement tells credits from debits: `signed` amounts are negative for
+ * debits, `typeColumn` amounts are unsigned and the type column says which
+ * transaction types are credits.
+ */
+export type AmountSign = 'signed' | 'typeColumn';
+
+/** Import preset for one bank's statement export */
+export interface BankProfile {
+  id: string;
+  name: string;
+  /** COMPE code, matched against OFX `BANKID` */
+  bankCode: string;
+  /** Accent-free words identifying the bank in the file name or preamble */
+  keywords: string[];
+  /** 0-based header row; detected automatically when omitted */
+  headerRow?: number;
+  columns: Partial<Record<ColumnRole, string[]>>;
+  dateFormat: DateFormat;
+  /** Used when the amount column's own values do not settle the separator */
+  decimalSeparator: ',' | '.';
+  amountSign: AmountSign;
+  /** Accent-free, lower-case type column values that mean credit */
+  creditTypes?: string[];
+}
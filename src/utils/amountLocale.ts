@@ -0,0 +1,77 @@
+export type DecimalSeparator = ',' | '.';
+
+type SeparatorEvidence = DecimalSeparator | 'ambiguous' | null;
+
+/** Keeps only digits and separators, dropping currency, sign, parentheses and D/C flags. */
+function stripAmount(value: unknown): string | null {
+  if (typeof value === 'number' || value === null || value === undefined) return null;
+
+  const stripped = String(value)
+    .replace(/R\$|\s/g, '')
+    .replace(/^[DC](?=[\d(-])|(?<=[\d)])[DC]$/i, '')
+    .replace(/[-+()]/g, '');
+
+  return /^[\d.,]+$/.test(stripped) ? stripped : null;
+}
+
+/**
+ * What a single value says about the decimal separator: "1.234,56" or "10,07"
+ * say comma, "1,234.56" or "1.50" say dot, "1.500" could be either.
+ */
+function separatorEvidence(value: unknown): SeparatorEvidence {
+  const stripped = stripAmount(value);
+  if (!stripped || /^\d+$/.test(stripped)) return null;
+
+  const lastComma = stripped.lastIndexOf(',');
+  const lastDot = stripped.lastIndexOf('.');
+
+  if (lastComma !== -1 && lastDot !== -1) {
+    return lastComma > lastDot ? ',' : '.';
+  }
+
+  const separator: DecimalSeparator = lastComma !== -1 ? ',' : '.';
+  const other: DecimalSeparator = separator === ',' ? '.' : ',';
+  const groups = stripped.split(separator);
+
+  // Repeated separator can only be grouping thousands
+  if (groups.length > 2) return other;
+
+  const [integerPart, fractionPart] = groups;
+  if (fractionPart.length !== 3) return separator;
+
+  // Thousands groups never start with a lone zero ("0,500" is a decimal)
+  return integerPart === '0' || integerPart === '' ? separator : 'ambiguous';
+}
+
+/**
+ * Infers a column's decimal separator from all its values. Returns null when no
+ * value settles it, e.g. a column holding only "1.500"-style amounts.
+ */
+export function detectDecimalSeparator(values: unknown[]): DecimalSeparator | null {
+  let commaVotes = 0;
+  let dotVotes = 0;
+
+  for (const value of values) {
+    const evidence = separatorEvidence(value);
+    if (evidence === ',') commaVotes++;
+    if (evidence === '.') dotVotes++;
+  }
+
+  if (commaVotes === 0 && dotVotes === 0) return null;
+  return commaVotes >= dotVotes ? ',' : '.';
+}
+
+/**
+ * Why a value cannot be trusted to read with the column's separator: it reads
+ * differently in pt-BR and en-US ("1.500", "2,000"), or it says the other
+ * separator ("1,234.02" in a comma column). The column's majority vote must
+ * never silently override a value's own evidence.
+ */
+export function amountSeparatorDoubt(
+  value: unknown,
+  columnSeparator: DecimalSeparator | undefined,
+): 'ambiguous' | 'conflict' | null {
+  const evidence = separatorEvidence(value);
+  if (evidence === 'ambiguous') return 'ambiguous';
+  return evidence && columnSeparator && evidence !== columnSeparator ? 'conflict' : null;
+}
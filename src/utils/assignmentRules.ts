@@ -0,0 +1,140 @@
+import { ChurchMapping } from '@/components/ChurchMappingConfig';
+import { AssignmentRule, AssignmentRuleType, CodingMode, RawDonation } from '@/types/donation';
+import { normalizeHeader } from '@/utils/columnProfiles';
+import { formatMoney } from '@/utils/money';
+import { formatPeriod, isWithinPeriod } from '@/utils/localDate';
+import { amountCode, formatCodeLabel } from '@/utils/churches';
+
+const STORAGE_KEY = 'donation-processor:assignment-rules';
+
+// Cents mappings run after rules with a lower number, so a donor or keyword
+// rule can override the cents code
+export const CENTS_RULE_PRIORITY = 100;
+export const DEFAULT_RULE_PRIORITY = 10;
+
+export const RULE_TYPE_LABELS: Record<AssignmentRuleType, string> = {
+  donor: 'Doador',
+  keyword: 'Palavra-chave',
+  regex: 'Expressão regular',
+  pixKey: 'Chave Pix / documento',
+  account: 'Conta de origem',
+  amountRange: 'Faixa de valor',
+  cents: 'Centavos',
+};
+
+const CPF_LENGTH = 11;
+const CNPJ_LENGTH = 14;
+const MASKED_CPF_LENGTH = 6;
+
+const digitsOnly = (value: string) => value.replace(/\D/g, '');
+
+/** Turns the cents mapping table into rules, so cents is one rule type among others. */
+export function centsRules(mappings: ChurchMapping[], codingMode: CodingMode = 'twoDigit'): AssignmentRule[] {
+  return mappings.map(mapping => ({
+    id: `cents-${mapping.cents}${mapping.validFrom ? `-${mapping.validFrom}` : ''}`,
+    type: 'cents',
+    cents: mapping.cents,
+    codingMode,
+    churchName: mapping.churchName,
+    priority: CENTS_RULE_PRIORITY,
+    validFrom: mapping.validFrom,
+    validTo: mapping.validTo,
+  }));
+}
+
+/** Ascending priority; the sort is stable, so ties keep their given order. */
+export function sortRules(rules: AssignmentRule[]): AssignmentRule[] {
+  return [...rules].sort((a, b) => a.priority - b.priority);
+}
+
+export function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function matchesRule(rule: AssignmentRule, donation: RawDonation): boolean {
+  if (!isWithinPeriod(donation.date, rule)) return false;
+
+  const pattern = rule.pattern?.trim() || '';
+
+  switch (rule.type) {
+    case 'cents':
+      return amountCode(donation.amount, rule.codingMode) === rule.cents;
+    case 'amountRange':
+      return (rule.minAmount === undefined || donation.amount >= rule.minAmount) &&
+        (rule.maxAmount === undefined || donation.amount <= rule.maxAmount);
+    case 'donor':
+      return !!pattern && [donation.donorName, donation.pix?.name]
+        .some(name => name && normalizeHeader(name).includes(normalizeHeader(pattern)));
+    case 'keyword':
+      return !!pattern && normalizeHeader([donation.description, donation.memo].filter(Boolean).join(' '))
+        .includes(normalizeHeader(pattern));
+    case 'regex':
+      return !!pattern && isValidRegex(pattern) &&
+        new RegExp(pattern, 'i').test([donation.donorName, donation.description, donation.memo].filter(Boolean).join(' '));
+    case 'pixKey': {
+      if (!pattern) return false;
+      const text = normalizeHeader([donation.description, donation.memo].filter(Boolean).join(' '));
+      return text.includes(normalizeHeader(pattern)) || matchesDocument(pattern, donation.pix?.document);
+    }
+    case 'account':
+      return !!pattern && !!donation.sourceAccount && digitsOnly(donation.sourceAccount) === digitsOnly(pattern);
+  }
+}
+
+/**
+ * CPF/CNPJ keys also match the payer's document. Pix receipts usually mask a
+ * CPF as ***.456.789-**, which keeps its 4th to 9th digits.
+ */
+function matchesDocument(pattern: string, document?: string): boolean {
+  const keyDigits = digitsOnly(pattern);
+  const documentDigits = digitsOnly(document || '');
+  if (keyDigits.length !== CPF_LENGTH && keyDigits.length !== CNPJ_LENGTH) return false;
+
+  if (documentDigits.length === keyDigits.length) return documentDigits === keyDigits;
+  return keyDigits.length === CPF_LENGTH && documentDigits.length === MASKED_CPF_LENGTH &&
+    keyDigits.substring(3, 9) === documentDigits;
+}
+
+/** First matching rule in priority order; `rules` must already be sorted. */
+export function findAssignment(rules: AssignmentRule[], donation: RawDonation): AssignmentRule | undefined {
+  return rules.find(rule => matchesRule(rule, donation));
+}
+
+/** Explains a rule in words, for the "why this church" column. */
+export function describeRule(rule: AssignmentRule): string {
+  const period = formatPeriod(rule);
+  return period ? `${describeCriterion(rule)} (${period})` : describeCriterion(rule);
+}
+
+function describeCriterion(rule: AssignmentRule): string {
+  switch (rule.type) {
+    case 'cents':
+      return `${rule.codingMode === 'threeDigit' ? 'Código' : 'Centavos'} ${formatCodeLabel(rule.cents ?? 0, rule.codingMode)}`;
+    case 'amountRange': {
+      const min = rule.minAmount !== undefined ? formatMoney(rule.minAmount) : null;
+      const max = rule.maxAmount !== undefined ? formatMoney(rule.maxAmount) : null;
+      if (min && max) return `Valor entre ${min} e ${max}`;
+      return min ? `Valor a partir de ${min}` : `Valor até ${max}`;
+    }
+    default:
+      return `${RULE_TYPE_LABELS[rule.type]}: "${rule.pattern}"`;
+  }
+}
+
+export function loadAssignmentRules(): AssignmentRule[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as AssignmentRule[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveAssignmentRules(rules: AssignmentRule[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+}
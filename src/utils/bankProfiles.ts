@@ -0,0 +1,207 @@
+import { BankProfile, ColumnRole } from '@/types/donation';
+import { normalizeHeader } from '@/utils/columnProfiles';
+
+/**
+ * Import presets for the statement exports of the major Brazilian banks.
+ * Column names are accent-free and lower-case, as produced by `normalizeHeader`;
+ * layouts follow each bank's internet banking "exportar extrato" option.
+ */
+export const BANK_PROFILES: BankProfile[] = [
+  {
+    id: 'itau',
+    name: 'Itaú',
+    bankCode: '341',
+    keywords: ['itau', 'itau unibanco'],
+    columns: {
+      date: ['data'],
+      description: ['lancamento', 'historico'],
+      amount: ['valor (r$)', 'valor'],
+    },
+    dateFormat: 'dmy',
+    decimalSeparator: ',',
+    amountSign: 'signed',
+  },
+  {
+    id: 'bradesco',
+    name: 'Bradesco',
+    bankCode: '237',
+    keywords: ['bradesco'],
+    columns: {
+      date: ['data'],
+      description: ['lancamento', 'historico'],
+      credit: ['credito (r$)', 'credito'],
+      debit: ['debito (r$)', 'debito'],
+    },
+    dateFormat: 'dmy',
+    decimalSeparator: ',',
+    amountSign: 'signed',
+  },
+  {
+    id: 'bb',
+    name: 'Banco do Brasil',
+    bankCode: '001',
+    keywords: ['banco do brasil', 'bb'],
+    headerRow: 0,
+    columns: {
+      date: ['data'],
+      description: ['lancamento', 'historico'],
+      donor: ['detalhes'],
+      amount: ['valor'],
+      type: ['tipo lancamento'],
+    },
+    dateFormat: 'dmy',
+    decimalSeparator: ',',
+    amountSign: 'typeColumn',
+    creditTypes: ['entrada'],
+  },
+  {
+    id: 'caixa',
+    name: 'Caixa Econômica Federal',
+    bankCode: '104',
+    keywords: ['caixa', 'caixa economica'],
+    headerRow: 0,
+    columns: {
+      date: ['data_mov', 'data'],
+      description: ['historico'],
+      amount: ['valor'],
+      indicator: ['deb_cred'],
+    },
+    dateFormat: 'dmy',
+    decimalSeparator: ',',
+    amountSign: 'signed',
+  },
+  {
+    id: 'santander',
+    name: 'Santander',
+    bankCode: '033',
+    keywords: ['santander'],
+    columns: {
+      date: ['data'],
+      description: ['historico', 'descricao'],
+      amount: ['valor (r$)', 'valor'],
+    },
+    dateFormat: 'dmy',
+    decimalSeparator: ',',
+    amountSign: 'signed',
+  },
+  {
+    id: 'nubank',
+    name: 'Nubank',
+    bankCode: '260',
+    keywords: ['nubank', 'nu pagamentos'],
+    headerRow: 0,
+    columns: {
+      date: ['data'],
+      amount: ['valor'],
+      description: ['descricao'],
+    },
+    dateFormat: 'dmy',
+    decimalSeparator: '.',
+    amountSign: 'signed',
+  },
+  {
+    id: 'inter',
+    name: 'Banco Inter',
+    bankCode: '077',
+    keywords: ['banco inter', 'inter'],
+    headerRow: 4,
+    columns: {
+      date: ['data lancamento', 'data'],
+      type: ['historico'],
+      description: ['descricao'],
+      amount: ['valor'],
+    },
+    dateFormat: 'dmy',
+    decimalSeparator: ',',
+    amountSign: 'signed',
+  },
+  {
+    id: 'sicoob',
+    name: 'Sicoob',
+    bankCode: '756',
+    keywords: ['sicoob'],
+    columns: {
+      date: ['data'],
+      description: ['historico'],
+      amount: ['valor'],
+    },
+    dateFormat: 'dmy',
+    decimalSeparator: ',',
+    amountSign: 'signed',
+  },
+  {
+    id: 'sicredi',
+    name: 'Sicredi',
+    bankCode: '748',
+    keywords: ['sicredi'],
+    columns: {
+      date: ['data'],
+      description: ['descricao'],
+      amount: ['valor (r$)', 'valor'],
+    },
+    dateFormat: 'dmy',
+    decimalSeparator: ',',
+    amountSign: 'signed',
+  },
+];
+
+export function getBankProfile(id: string | undefined): BankProfile | undefined {
+  return BANK_PROFILES.find(p => p.id === id);
+}
+
+/**
+ * Resolves the profile's columns against a header row: exact names first, then
+ * substring matches, never assigning one column to two roles.
+ */
+export function matchBankProfileColumns(profile: BankProfile, headers: string[]): Partial<Record<ColumnRole, number>> {
+  const normalized = headers.map(normalizeHeader);
+  const columns: Partial<Record<ColumnRole, number>> = {};
+  const taken = new Set<number>();
+
+  for (const role of Object.keys(profile.columns) as ColumnRole[]) {
+    const names = profile.columns[role] || [];
+    let index = normalized.findIndex((h, i) => !taken.has(i) && names.includes(h));
+    if (index === -1) {
+      index = normalized.findIndex((h, i) => !taken.has(i) && names.some(name => h.includes(name)));
+    }
+    if (index !== -1) {
+      columns[role] = index;
+      taken.add(index);
+    }
+  }
+
+  return columns;
+}
+
+/**
+ * Suggests a profile from the file name, the first rows of the statement and,
+ * for structured formats, the bank code. A bank's name or code must appear
+ * somewhere; matching headers alone are too generic to tell banks apart.
+ */
+export function suggestBankProfile(source: { fileName: string; rows?: unknown[][]; bankCode?: string }): BankProfile | null {
+  const text = [source.fileName.replace(/[_.-]+/g, ' '), ...(source.rows || []).map(row => Array.from(row || []).join(' '))]
+    .map(normalizeHeader)
+    .join('\n');
+  const bankCode = source.bankCode?.replace(/^0+/, '');
+
+  let best: BankProfile | null = null;
+  let bestScore = 0;
+
+  for (const profile of BANK_PROFILES) {
+    const codeHit = bankCode !== undefined && profile.bankCode.replace(/^0+/, '') === bankCode;
+    const keywordHits = profile.keywords.filter(keyword => new RegExp(`\\b${keyword}\\b`).test(text)).length;
+    if (!codeHit && keywordHits === 0) continue;
+
+    const headerHits = (source.rows || [])
+      .map(row => Object.keys(matchBankProfileColumns(profile, Array.from(row || [], c => String(c ?? '')))).length)
+      .reduce((max, hits) => Math.max(max, hits), 0);
+
+    const score = (codeHit ? 100 : 0) + keywordHits * 10 + headerHits;
+    if (score > bestScore) {
+      bestScore = score;
+      best = profile;
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,63 @@
+import { ChurchMapping } from '@/components/ChurchMappingConfig';
+import { Church, CodingMode, Money } from '@/types/donation';
+import { centsPart } from '@/utils/money';
+
+export const CODING_MODE_LABELS: Record<CodingMode, string> = {
+  twoDigit: 'Centavos (2 dígitos, até 100 códigos)',
+  threeDigit: 'Unidade + centavos (3 dígitos, até 1000 códigos)',
+};
+
+export const CODE_DIGITS: Record<CodingMode, number> = {
+  twoDigit: 2,
+  threeDigit: 3,
+};
+
+export const MAX_CODE: Record<CodingMode, number> = {
+  twoDigit: 99,
+  threeDigit: 999,
+};
+
+const byCodeAndDate = (a: ChurchMapping, b: ChurchMapping) =>
+  a.cents - b.cents || (a.validFrom || '').localeCompare(b.validFrom || '');
+
+/** One row per code a church holds, ordered by code and start date, as edited and exported. */
+export function churchMappings(churches: Church[]): ChurchMapping[] {
+  return churches
+    .flatMap(church => church.codes.map(code => ({ ...code, churchName: church.name })))
+    .sort(byCodeAndDate);
+}
+
+/** Groups code rows back into churches, keeping the order churches first appear in. */
+export function groupMappings(mappings: ChurchMapping[]): Church[] {
+  const churches = new Map<string, Church>();
+
+  for (const { churchName, ...code } of mappings) {
+    const church = churches.get(churchName) || { name: churchName, codes: [] };
+    church.codes.push(code);
+    churches.set(churchName, church);
+  }
+
+  return Array.from(churches.values());
+}
+
+/** Distinct cents codes of a church, ascending. */
+export function churchCodes(church: Church): number[] {
+  return Array.from(new Set(church.codes.map(code => code.cents))).sort((a, b) => a - b);
+}
+
+/** The church code an amount carries: `x7,23` is 23, or 723 in three-digit mode. */
+export function amountCode(amount: Money, codingMode: CodingMode = 'twoDigit'): number {
+  return codingMode === 'threeDigit' ? Math.abs(amount) % 1000 : centsPart(amount);
+}
+
+/** The code as typed and exported, zero-padded: `07` or `723`. */
+export function padCode(code: number, codingMode: CodingMode = 'twoDigit'): string {
+  return code.toString().padStart(CODE_DIGITS[codingMode], '0');
+}
+
+/** `,07` or `x7,23`, or a note for donations that a rule other than cents assigned. */
+export function formatCodeLabel(cents?: number, codingMode: CodingMode = 'twoDigit'): string {
+  if (cents === undefined) return 'Outras regras';
+  const code = padCode(cents, codingMode);
+  return codingMode === 'threeDigit' ? `x${code[0]},${code.slice(1)}` : `,${code}`;
+}
@@ -0,0 +1,245 @@
+import { LocalDate, Money, ParsedStatement, RawDonation, RejectedRow } from '@/types/donation';
+import { toLocalDate } from '@/utils/localDate';
+import { formatMoney } from '@/utils/money';
+
+export type CnabLayout = 240 | 400;
+
+// Return movement/occurrence codes that mean the título was paid (credit to the account)
+const SETTLEMENT_CODES = ['06', '17'];
+
+/**
+ * Reads a fixed-width field using the 1-based, inclusive positions found in the
+ * FEBRABAN layout manuals, so offsets can be checked against the spec directly.
+ */
+function field(line: string, start: number, end: number): string {
+  return line.substring(start - 1, end);
+}
+
+// Amounts are written in centavos with no separator
+function parseCnabAmount(value: string): Money {
+  const digits = value.trim();
+  return /^\d+$/.test(digits) ? parseInt(digits, 10) : NaN;
+}
+
+// CNAB 240 writes DDMMAAAA, CNAB 400 writes DDMMAA; zeros mean "no date"
+function parseCnabDate(value: string): LocalDate | null {
+  if (!/^\d+$/.test(value) || /^0+$/.test(value)) return null;
+
+  const day = parseInt(value.substring(0, 2), 10);
+  const month = parseInt(value.substring(2, 4), 10);
+  let year = parseInt(value.substring(4), 10);
+  if (value.length === 6) year += year < 70 ? 2000 : 1900;
+
+  return toLocalDate(year, month, day);
+}
+
+function splitLines(content: string): string[] {
+  return content.split(/\r?\n/).filter(line => line.trim().length > 0);
+}
+
+/**
+ * Detects whether a text file is a CNAB return file and which layout it uses.
+ * Some banks trim trailing blanks, so the header markers are checked as well as
+ * the line length.
+ */
+export function detectCnabLayout(content: string): CnabLayout | null {
+  const [header] = splitLines(content);
+  if (!header) return null;
+
+  if (header.length === 400 || /^02RETORNO/.test(header)) return 400;
+  if (header.length === 240 || (/^\d{3}0000/.test(header) && field(header, 8, 8) === '0')) return 240;
+  return null;
+}
+
+export function parseCnab(content: string): Pick<ParsedStatement, 'donations' | 'rejectedRows'> {
+  const layout = detectCnabLayout(content);
+  if (!layout) {
+    throw new Error('Arquivo não reconhecido como retorno CNAB 240 ou 400');
+  }
+
+  const lines = splitLines(content).map(line => line.padEnd(layout, ' '));
+  return layout === 240 ? parseCnab240(lines) : parseCnab400(lines);
+}
+
+function rejectLine(line: string, index: number, reason: string): RejectedRow {
+  return { rowNumber: index + 1, cells: [line.trimEnd()], reason };
+}
+
+function parseCnab240(lines: string[]): Pick<ParsedStatement, 'donations' | 'rejectedRows'> {
+  const donations: RawDonation[] = [];
+  const rejectedRows: RejectedRow[] = [];
+  let fileTrailer: string | null = null;
+
+  // Per-lot accumulators, checked against each lot trailer (record type 5)
+  let lotRecords = 0;
+  let lotTitlesTotal = 0;
+  let lotTitlesCount = 0;
+  let pending: { donation: RawDonation; settled: boolean; index: number } | null = null;
+
+  const flushPending = () => {
+    if (pending?.settled) {
+      const { donation, index } = pending;
+      if (donation.date && !isNaN(donation.amount)) {
+        donations.push(donation);
+      } else {
+        rejectedRows.push(rejectLine(lines[index], index, !donation.date ? 'Data de crédito inválida' : 'Valor pago inválido'));
+      }
+    }
+    pending = null;
+  };
+
+  lines.forEach((line, index) => {
+    const recordType = field(line, 8, 8);
+
+    switch (recordType) {
+      case '0':
+        break;
+      case '1':
+        lotRecords = 1;
+        lotTitlesTotal = 0;
+        lotTitlesCount = 0;
+        break;
+      case '3': {
+        lotRecords++;
+        const segment = field(line, 14, 14);
+        const movement = field(line, 16, 17);
+
+        if (segment === 'T') {
+          flushPending();
+          const titleAmount = parseCnabAmount(field(line, 82, 96));
+          lotTitlesTotal += isNaN(titleAmount) ? 0 : titleAmount;
+          lotTitlesCount++;
+
+          const ourNumber = field(line, 38, 57).trim();
+          pending = {
+            index,
+            settled: SETTLEMENT_CODES.includes(movement),
+            donation: {
+              date: parseCnabDate(field(line, 74, 81)) as LocalDate,
+              amount: titleAmount,
+              donorName: field(line, 149, 188).trim() || undefined,
+              description: `Liquidação de título ${ourNumber}`.trim(),
+              fitId: ourNumber || undefined,
+              transactionType: `CNAB240-${movement}`,
+            },
+          };
+        } else if (segment === 'U' && pending) {
+          // Segment U carries what was actually paid and when it was credited
+          const paidAmount = parseCnabAmount(field(line, 78, 92));
+          const creditDate = parseCnabDate(field(line, 146, 153)) || parseCnabDate(field(line, 138, 145));
+
+          if (!isNaN(paidAmount) && paidAmount > 0) pending.donation.amount = paidAmount;
+          if (creditDate) pending.donation.date = creditDate;
+        }
+        break;
+      }
+      case '5': {
+        flushPending();
+        lotRecords++;
+        const declaredRecords = parseInt(field(line, 18, 23), 10);
+        if (declaredRecords !== lotRecords) {
+          throw new Error(`Trailer de lote (linha ${index + 1}) declara ${declaredRecords} registros, mas o lote contém ${lotRecords}`);
+        }
+
+        const declaredCount = parseInt(field(line, 24, 29), 10);
+        const declaredTotal = parseCnabAmount(field(line, 30, 46));
+        if (declaredCount > 0 && declaredCount !== lotTitlesCount) {
+          throw new Error(`Trailer de lote (linha ${index + 1}) declara ${declaredCount} títulos, mas foram lidos ${lotTitlesCount}`);
+        }
+        if (declaredTotal > 0 && declaredTotal !== lotTitlesTotal) {
+          throw new Error(`Trailer de lote (linha ${index + 1}) declara total de ${formatMoney(declaredTotal)}, mas a soma dos títulos é ${formatMoney(lotTitlesTotal)}`);
+        }
+        break;
+      }
+      case '9':
+        flushPending();
+        fileTrailer = line;
+        break;
+      default:
+        rejectedRows.push(rejectLine(line, index, `Tipo de registro CNAB 240 desconhecido: ${recordType}`));
+    }
+  });
+
+  flushPending();
+
+  if (!fileTrailer) {
+    throw new Error('Trailer do arquivo CNAB 240 não encontrado (arquivo incompleto?)');
+  }
+
+  const declaredRecords = parseInt(field(fileTrailer, 24, 29), 10);
+  if (declaredRecords !== lines.length) {
+    throw new Error(`Trailer do arquivo declara ${declaredRecords} registros, mas o arquivo contém ${lines.length}`);
+  }
+
+  return { donations, rejectedRows };
+}
+
+function parseCnab400(lines: string[]): Pick<ParsedStatement, 'donations' | 'rejectedRows'> {
+  const donations: RawDonation[] = [];
+  const rejectedRows: RejectedRow[] = [];
+  let trailer: string | null = null;
+  let titlesTotal = 0;
+  let titlesCount = 0;
+
+  lines.forEach((line, index) => {
+    const recordType = field(line, 1, 1);
+
+    // Every CNAB 400 record ends with its own sequence number
+    const sequence = parseInt(field(line, 395, 400), 10);
+    if (sequence !== index + 1) {
+      throw new Error(`Sequência CNAB 400 inválida na linha ${index + 1}: esperado ${index + 1}, encontrado ${sequence}`);
+    }
+
+    switch (recordType) {
+      case '0':
+        break;
+      case '1': {
+        const occurrence = field(line, 109, 110);
+        const titleAmount = parseCnabAmount(field(line, 153, 165));
+        titlesTotal += isNaN(titleAmount) ? 0 : titleAmount;
+        titlesCount++;
+
+        if (!SETTLEMENT_CODES.includes(occurrence)) break;
+
+        const paidAmount = parseCnabAmount(field(line, 254, 266));
+        const date = parseCnabDate(field(line, 296, 301)) || parseCnabDate(field(line, 111, 116));
+        const ourNumber = field(line, 71, 82).trim();
+        const amount = !isNaN(paidAmount) && paidAmount > 0 ? paidAmount : titleAmount;
+
+        if (date && !isNaN(amount)) {
+          donations.push({
+            date,
+            amount,
+            donorName: field(line, 325, 354).trim() || undefined,
+            description: `Liquidação de título ${ourNumber}`.trim(),
+            fitId: ourNumber || undefined,
+            transactionType: `CNAB400-${occurrence}`,
+          });
+        } else {
+          rejectedRows.push(rejectLine(line, index, !date ? 'Data de crédito inválida' : 'Valor pago inválido'));
+        }
+        break;
+      }
+      case '9':
+        trailer = line;
+        break;
+      default:
+        rejectedRows.push(rejectLine(line, index, `Tipo de registro CNAB 400 desconhecido: ${recordType}`));
+    }
+  });
+
+  if (!trailer) {
+    throw new Error('Trailer do arquivo CNAB 400 não encontrado (arquivo incompleto?)');
+  }
+
+  const declaredCount = parseInt(field(trailer, 18, 25), 10);
+  const declaredTotal = parseCnabAmount(field(trailer, 26, 39));
+  if (declaredCount > 0 && declaredCount !== titlesCount) {
+    throw new Error(`Trailer do arquivo declara ${declaredCount} títulos, mas foram lidos ${titlesCount}`);
+  }
+  if (declaredTotal > 0 && declaredTotal !== titlesTotal) {
+    throw new Error(`Trailer do arquivo declara total de ${formatMoney(declaredTotal)}, mas a soma dos títulos é ${formatMoney(titlesTotal)}`);
+  }
+
+  return { donations, rejectedRows };
+}
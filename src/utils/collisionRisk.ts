@@ -0,0 +1,101 @@
+import {
+  CodeRisk,
+  CodingMode,
+  CollisionReport,
+  CollisionRiskLevel,
+  ImportRecord,
+  RawDonation,
+} from '@/types/donation';
+import { classifyTransaction } from '@/utils/transactionClassifier';
+import { MAX_CODE } from '@/utils/churches';
+
+// Below this many donations the distribution says little about any one code
+export const MIN_SAMPLE_SIZE = 100;
+
+export const RISK_LEVEL_LABELS: Record<CollisionRiskLevel, string> = {
+  low: 'Baixo',
+  medium: 'Médio',
+  high: 'Alto',
+};
+
+const MEDIUM_RISK_RATE = 0.1;
+const HIGH_RISK_RATE = 0.3;
+const SUGGESTION_COUNT = 8;
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Endings people type without meaning a code: ,00 ,50 ,90 ,99 and the like
+const isRoundEnding = (code: number) => code % 5 === 0 || code % 100 === 99;
+
+const riskLevel = (rate: number): CollisionRiskLevel =>
+  rate >= HIGH_RISK_RATE ? 'high' : rate >= MEDIUM_RISK_RATE ? 'medium' : 'low';
+
+/** Counts a statement's donation credits by the last three digits of the amount, for `ImportRecord.amountEndings`. */
+export function countAmountEndings(donations: RawDonation[]): Record<number, number> {
+  const endings: Record<number, number> = {};
+
+  for (const donation of donations) {
+    if (donation.amount <= 0 || classifyTransaction(donation) !== 'donation') continue;
+    const ending = donation.amount % 1000;
+    endings[ending] = (endings[ending] || 0) + 1;
+  }
+
+  return endings;
+}
+
+/**
+ * Estimates, from the amounts of every imported statement, how often each code
+ * would catch ordinary donations. Codes nobody uses only see organic amounts,
+ * so their median count is the background every code gets. A configured code
+ * counting far more than the typical configured code owes the excess to
+ * organic amounts too (,00 and ,50 being the usual suspects). For a free code
+ * the rate compares its organic donations with what a church typically sends
+ * on purpose.
+ */
+export function analyzeCollisionRisk(
+  history: ImportRecord[],
+  configuredCodes: number[],
+  codingMode: CodingMode,
+): CollisionReport {
+  // A file imported in several batches counts once
+  const recordsByFile = new Map(history.map(record => [record.fileHash, record]));
+
+  const counts = new Array<number>(MAX_CODE[codingMode] + 1).fill(0);
+  for (const record of recordsByFile.values()) {
+    for (const [ending, count] of Object.entries(record.amountEndings || {})) {
+      counts[Number(ending) % counts.length] += count;
+    }
+  }
+
+  const sampleSize = counts.reduce((sum, count) => sum + count, 0);
+  const configured = new Set(configuredCodes);
+  const background = median(counts.filter((_, code) => !configured.has(code)));
+  const configuredMedian = median(counts.filter((count, code) => configured.has(code) && count > 0));
+  const typicalIntentional = configuredMedian > 0
+    ? Math.max(configuredMedian - background, 1)
+    : sampleSize / counts.length;
+
+  const risks: CodeRisk[] = counts.map((count, code) => {
+    const falsePositiveRate = configured.has(code)
+      ? (count > 0 ? Math.min(1, (background + Math.max(0, count - configuredMedian)) / count) : 0)
+      : (count > 0 ? count / (count + typicalIntentional) : 0);
+
+    return { code, historicalCount: count, falsePositiveRate, level: riskLevel(falsePositiveRate) };
+  });
+
+  const suggestions = risks
+    .filter(risk => !configured.has(risk.code))
+    .sort((a, b) =>
+      a.historicalCount - b.historicalCount ||
+      Number(isRoundEnding(a.code)) - Number(isRoundEnding(b.code)) ||
+      a.code - b.code)
+    .slice(0, SUGGESTION_COUNT)
+    .map(risk => risk.code);
+
+  return { sampleSize, risks, suggestions };
+}
@@ -0,0 +1,38 @@
+import { ColumnProfile, ColumnRole } from '@/types/donation';
+
+const STORAGE_KEY = 'donation-processor:column-profiles';
+
+/** Lower-cases and strips accents so "Descrição" matches "descricao". */
+export function normalizeHeader(value: unknown): string {
+  return String(value ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function getHeaderSignature(headers: unknown[]): string {
+  return headers.map(normalizeHeader).join('|');
+}
+
+/** A layout is usable once it has a date and either an amount or a credit/debit column. */
+export function hasRequiredColumns(columns: Partial<Record<ColumnRole, number>>): boolean {
+  return columns.date !== undefined &&
+    (columns.amount !== undefined || columns.credit !== undefined || columns.debit !== undefined);
+}
+
+export function loadColumnProfiles(): ColumnProfile[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as ColumnProfile[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveColumnProfile(profile: ColumnProfile): ColumnProfile[] {
+  const profiles = [...loadColumnProfiles().filter(p => p.signature !== profile.signature), profile];
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  return profiles;
+}
@@ -0,0 +1,87 @@
+import { CodingMode, CollisionReport, ProcessedDonation, ReviewStatus } from '@/types/donation';
+import { normalizeHeader } from '@/utils/columnProfiles';
+import { formatCodeLabel } from '@/utils/churches';
+
+export const DEFAULT_REVIEW_THRESHOLD = 0.7;
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  pending: 'Aguardando revisão',
+  confirmed: 'Confirmada',
+  reassigned: 'Reatribuída',
+};
+
+// Share of confidence kept by each doubt
+const ROUND_AMOUNT_FACTOR = 0.6;
+const ROUNDISH_AMOUNT_FACTOR = 0.85;
+const OTHER_CHURCH_DONOR_FACTOR = 0.5;
+// Donations to another church before a donor counts as "usually giving" there
+const MIN_DONOR_HISTORY = 2;
+
+const donorKey = (donation: ProcessedDonation) =>
+  donation.pix?.document || (donation.donorName ? normalizeHeader(donation.donorName) : undefined);
+
+/**
+ * Scores how sure each cents assignment is. Explicit rules (donor, keyword,
+ * Pix key...) are the treasurer's own decision and stay at 1. A code is doubted
+ * when the amount looks typed without a code in mind (,00 ,50, then other round
+ * tens and ,99), when imported statements show ordinary amounts often land on
+ * it, and when the same donor's other donations in the batch mostly went to a
+ * different church.
+ */
+export function scoreConfidence(
+  donations: ProcessedDonation[],
+  collisionReport: CollisionReport | null,
+  codingMode: CodingMode,
+): void {
+  const assigned = donations.filter(d => d.assignedChurch !== 'Não mapeado' && !d.isDuplicate);
+
+  const churchesByDonor = new Map<string, Map<string, number>>();
+  for (const donation of assigned) {
+    const key = donorKey(donation);
+    if (!key) continue;
+    const churches = churchesByDonor.get(key) || new Map<string, number>();
+    churches.set(donation.assignedChurch, (churches.get(donation.assignedChurch) || 0) + 1);
+    churchesByDonor.set(key, churches);
+  }
+
+  for (const donation of donations) {
+    if (donation.assignedChurch === 'Não mapeado') continue;
+
+    let confidence = 1;
+    const factors: string[] = [];
+
+    if (donation.assignedBy?.ruleType === 'cents') {
+      const centavos = Math.abs(donation.amount) % 100;
+      if (centavos % 50 === 0) {
+        confidence *= ROUND_AMOUNT_FACTOR;
+        factors.push('Valor redondo');
+      } else if (centavos % 10 === 0 || centavos === 99) {
+        confidence *= ROUNDISH_AMOUNT_FACTOR;
+        factors.push('Valor quase redondo');
+      }
+
+      const risk = collisionReport?.risks[donation.cents];
+      if (risk && risk.level !== 'low') {
+        confidence *= 1 - risk.falsePositiveRate;
+        factors.push(`Código ${formatCodeLabel(donation.cents, codingMode)} coincide com valores comuns (${Math.round(risk.falsePositiveRate * 100)}%)`);
+      }
+
+      const key = donorKey(donation);
+      const donorChurches = key ? churchesByDonor.get(key) : undefined;
+      if (donorChurches) {
+        const sameChurch = (donorChurches.get(donation.assignedChurch) || 0) - (donation.isDuplicate ? 0 : 1);
+        const [usualChurch, usualCount] = Array.from(donorChurches.entries())
+          .filter(([church]) => church !== donation.assignedChurch)
+          .sort((a, b) => b[1] - a[1])[0] || [];
+
+        if (usualChurch && usualCount >= MIN_DONOR_HISTORY && usualCount > sameChurch) {
+          confidence *= OTHER_CHURCH_DONOR_FACTOR;
+          factors.push(`Doador costuma doar para ${usualChurch}`);
+        }
+      }
+    }
+
+    donation.confidence = confidence;
+    donation.confidenceFactors = factors.length > 0 ? factors : undefined;
+  }
+}
@@ -0,0 +1,43 @@
+import Papa from 'papaparse';
+
+const DELIMITER_SCAN_ROWS = 50;
+
+/**
+ * Decodes a text statement. Valid UTF-8 is taken as such (minus any BOM);
+ * anything else is assumed to be Windows-1252, which is what Excel and most
+ * Brazilian internet banking exports write.
+ */
+export function decodeText(buffer: ArrayBuffer): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true, ignoreBOM: false }).decode(buffer);
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer);
+  }
+}
+
+/**
+ * Splits a CSV/TXT statement into rows of cells. The delimiter is guessed by
+ * papaparse, trying `;` first because pt-BR exports use the comma as the
+ * decimal separator. Blank lines are kept, so a row's index is its line in
+ * the file minus one. `maxRows` stops after that many rows, for header sniffing.
+ */
+export function parseCsv(content: string, maxRows?: number): string[][] {
+  // Blank lines would make every delimiter look inconsistent, so guess without them
+  const guess = Papa.parse<string[]>(content, {
+    delimitersToGuess: [';', ',', '\t', '|'],
+    skipEmptyLines: 'greedy',
+    preview: DELIMITER_SCAN_ROWS,
+  });
+
+  const fatalError = guess.errors.find(e => e.type === 'Delimiter' && guess.data.length === 0);
+  if (fatalError) {
+    throw new Error(`Não foi possível identificar o separador do arquivo: ${fatalError.message}`);
+  }
+
+  const result = Papa.parse<string[]>(content, {
+    delimiter: guess.meta.delimiter,
+    preview: maxRows,
+  });
+
+  return result.data.map(row => row.map(cell => cell.trim()));
+}
@@ -0,0 +1,45 @@
+import { DateFormat } from '@/types/donation';
+
+export const DATE_FORMAT_LABELS: Record<DateFormat, string> = {
+  dmy: 'DD/MM/AAAA',
+  mdy: 'MM/DD/AAAA',
+  ymd: 'AAAA-MM-DD',
+};
+
+// Day and month in either order, then a 2- or 4-digit year
+export const DAY_MONTH_PATTERN = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})(?:[ T]|$)/;
+export const ISO_DATE_PATTERN = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[ T]|$)/;
+
+/**
+ * Infers a date column's format from all its values. A first field above 12
+ * proves DD/MM, a second field above 12 proves MM/DD. Returns `ambiguous` when
+ * no value (or contradicting values) settle it, and null when the column has
+ * no day/month text dates at all (Excel serials, ISO dates).
+ */
+export function inferDateFormat(values: unknown[]): DateFormat | 'ambiguous' | null {
+  let dayFirst = false;
+  let monthFirst = false;
+  let dayMonthDates = 0;
+  let isoDates = 0;
+
+  for (const value of values) {
+    if (typeof value !== 'string') continue;
+    const text = value.trim();
+
+    if (ISO_DATE_PATTERN.test(text)) {
+      isoDates++;
+      continue;
+    }
+
+    const match = text.match(DAY_MONTH_PATTERN);
+    if (!match) continue;
+
+    dayMonthDates++;
+    if (parseInt(match[1]) > 12) dayFirst = true;
+    if (parseInt(match[2]) > 12) monthFirst = true;
+  }
+
+  if (dayMonthDates === 0) return isoDates > 0 ? 'ymd' : null;
+  if (dayFirst === monthFirst) return 'ambiguous';
+  return dayFirst ? 'dmy' : 'mdy';
+}
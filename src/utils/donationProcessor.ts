@@ -1,192 +1,836 @@
 import * as XLSX from 'xlsx';
-import { ChurchMapping } from '@/components/ChurchMappingConfig';
-import { RawDonation, ProcessedDonation, ChurchSummary, ProcessingStats } from '@/types/donation';
+import {
+  RawDonation,
+  ProcessedDonation,
+  Church,
+  ChurchSummary,
+  CodeSummary,
+  CodingMode,
+  CategorySummary,
+  ProcessingStats,
+  ProcessingResult,
+  AssignmentRule,
+  ColumnProfile,
+  ColumnRole,
+  BankProfile,
+  DateFormat,
+  FileStatus,
+  ProcessingProgress,
+  ProcessingStage,
+  ImportOverlap,
+  ImportRecord,
+  LocalDate,
+  Money,
+  ParsedStatement,
+  RejectedRow,
+  SheetInfo,
+  StatementMetadata,
+} from '@/types/donation';
+import { decodeOfx, parseOfx, parseOfxMetadata } from '@/utils/ofxParser';
+import { detectCnabLayout, parseCnab } from '@/utils/cnabParser';
+import { decodeText, parseCsv } from '@/utils/csvParser';
+import { getHeaderSignature, hasRequiredColumns, normalizeHeader } from '@/utils/columnProfiles';
+import { getBankProfile, matchBankProfileColumns, suggestBankProfile } from '@/utils/bankProfiles';
+import { DecimalSeparator, amountSeparatorDoubt, detectDecimalSeparator } from '@/utils/amountLocale';
+import { daysBetween, fromExcelSerial, toLocalDate, toLocalTime } from '@/utils/localDate';
+import { parseDecimalMoney, toMoney } from '@/utils/money';
+import { DAY_MONTH_PATTERN, ISO_DATE_PATTERN, inferDateFormat } from '@/utils/dateFormat';
+import { classifyTransaction } from '@/utils/transactionClassifier';
+import { parsePixPayer } from '@/utils/pixParser';
+import { findOverlap, fingerprintLines, hashContent } from '@/utils/importHistory';
+import { centsRules, describeRule, findAssignment, sortRules } from '@/utils/assignmentRules';
+import { amountCode, churchCodes, churchMappings } from '@/utils/churches';
+import { MIN_SAMPLE_SIZE, analyzeCollisionRisk, countAmountEndings } from '@/utils/collisionRisk';
+import { DEFAULT_REVIEW_THRESHOLD, scoreConfidence } from '@/utils/confidence';
+
+export const SUPPORTED_FILE_EXTENSIONS = ['.xls', '.xlsx', '.csv', '.txt', '.ofx', '.ret'];
+
+// Accent-free header names recognised without a saved column profile
+const COLUMN_NAMES: Record<ColumnRole, string[]> = {
+  date: ['data', 'date', 'dt'],
+  amount: ['valor', 'amount', 'value', 'vlr'],
+  credit: ['entrada', 'credito', 'credit'],
+  debit: ['saida', 'debito', 'debit'],
+  indicator: ['d/c', 'c/d', 'deb_cred', 'deb/cred', 'cred/deb'],
+  donor: ['doador', 'donor', 'nome', 'name', 'pagador', 'remetente'],
+  description: ['descricao', 'description', 'desc', 'historico', 'lancamento', 'observacao'],
+  type: ['tipo', 'type', 'natureza'],
+};
+
+const PREVIEW_ROW_COUNT = 10;
+
+const AMOUNT_ROLES: ColumnRole[] = ['amount', 'credit', 'debit'];
+
+// Bank exports put agency/account/period rows above the real header
+const HEADER_SCAN_ROWS = 20;
+
+// Reading and parsing the files fill the progress bar up to 70%, split evenly
+// per file (a fifth for reading, the rest for parsing); mapping and
+// summarising share what is left
+const FILE_STAGES_PERCENT = 70;
+const READING_SHARE = 0.2;
+const STAGE_PERCENT_RANGES: Record<'mapping' | 'summarizing', [number, number]> = {
+  mapping: [70, 90],
+  summarizing: [90, 100],
+};
+
+// Rows or donations handled between two progress reports
+const PROGRESS_INTERVAL = 500;
+
+// Banks settle Pix and card disputes within this many days of the credit
+const REFUND_MATCH_WINDOW_DAYS = 90;
+
+/**
+ * Thrown when the date and amount columns cannot be identified, or the date
+ * column reads equally well as DD/MM and MM/DD, carrying what the
+ * column-mapping wizard needs to let the user decide.
+ */
+export class ColumnMappingRequiredError extends Error {
+  constructor(
+    public readonly headers: string[],
+    public readonly previewRows: string[][],
+    public readonly suggestedColumns: Partial<Record<ColumnRole, number>>,
+    public readonly inferredDateFormat: DateFormat | 'ambiguous' | null = null,
+  ) {
+    super(inferredDateFormat === 'ambiguous'
+      ? 'Não foi possível determinar se as datas estão no formato DD/MM ou MM/DD. Indique o formato das datas.'
+      : 'Colunas obrigatórias não encontradas. Indique quais colunas contêm a data e o valor.');
+    this.name = 'ColumnMappingRequiredError';
+  }
+
+  /** Batch file whose columns need mapping, set by `processFiles` */
+  fileName?: string;
+
+  get signature(): string {
+    return getHeaderSignature(this.headers);
+  }
+}
+
+export interface DonationProcessorOptions {
+  /** Column layouts the user mapped by hand, matched by header signature */
+  columnProfiles?: ColumnProfile[];
+  /** Earlier imports, to detect a statement uploaded twice */
+  importHistory?: ImportRecord[];
+  /** Identifies the upload batch, so reprocessing it is not reported as a re-import */
+  batchId?: string;
+  /** Leave out lines an earlier import already had */
+  skipSeenLines?: boolean;
+  /** Assignment rules tried alongside the churches' cents codes, by priority */
+  rules?: AssignmentRule[];
+  /** Read church codes from the centavos alone (default) or from the last reais digit too */
+  codingMode?: CodingMode;
+  /** Assignments scoring below this confidence (0–1) wait for review instead of counting */
+  reviewThreshold?: number;
+}
+
+export interface ProcessingCallbacks {
+  onFileStatus?: (index: number, status: FileStatus, message?: string) => void;
+  onProgress?: (progress: ProcessingProgress) => void;
+}
+
+/** One file of a batch, with the options picked for it in the upload step */
+export interface StatementFile {
+  file: File;
+  /** Workbook sheets to process together; defaults to the first sheet */
+  sheetNames?: string[];
+  /** Bank layout preset from `BANK_PROFILES` */
+  bankProfileId?: string;
+}
 
 export class DonationProcessor {
-  private mappings: Map<number, string>;
+  private churches: Church[];
+  private rules: AssignmentRule[];
+  private codingMode: CodingMode;
+  private reviewThreshold: number;
+  private columnProfiles: ColumnProfile[];
+  private importHistory: ImportRecord[];
+  private batchId?: string;
+  private skipSeenLines: boolean;
+  // Options of the statement file being read
+  private sheetNames?: string[];
+  private bankProfile?: BankProfile;
+  private onProgress?: (progress: ProcessingProgress) => void;
+  private currentFile = { index: 0, count: 1, name: '' };
+
+  constructor(churches: Church[], options: DonationProcessorOptions = {}) {
+    this.churches = churches;
+    this.codingMode = options.codingMode ?? 'twoDigit';
+    this.reviewThreshold = options.reviewThreshold ?? DEFAULT_REVIEW_THRESHOLD;
+    // User rules go first so they win priority ties against the cents table
+    this.rules = sortRules([...(options.rules || []), ...centsRules(churchMappings(churches), this.codingMode)]);
+    this.columnProfiles = options.columnProfiles || [];
+    this.importHistory = options.importHistory || [];
+    this.batchId = options.batchId;
+    this.skipSeenLines = options.skipSeenLines ?? false;
+  }
 
-  constructor(mappings: ChurchMapping[]) {
-    this.mappings = new Map(mappings.map(m => [m.cents, m.churchName]));
+  async processFile(file: File): Promise<ProcessingResult> {
+    return this.processFiles([{ file }]);
   }
 
-  async processExcelFile(file: File): Promise<{
-    donations: ProcessedDonation[];
-    summary: ChurchSummary[];
-    unmappedDonations: ProcessedDonation[];
-    stats: ProcessingStats;
-  }> {
-    const rawDonations = await this.readExcelFile(file);
+  /**
+   * Reads every file of a batch and processes them as one statement, so
+   * duplicates are caught across files. A file that fails is reported through
+   * `onFileStatus` and skipped, while `onProgress` follows each stage; a missing column mapping stops the batch, since
+   * only the user can resolve it. Files overlapping earlier imports are listed
+   * in `overlaps`, and with `skipSeenLines` their known lines are left out.
+   */
+  async processFiles(
+    statements: StatementFile[],
+    { onFileStatus, onProgress }: ProcessingCallbacks = {},
+  ): Promise<ProcessingResult> {
+    this.onProgress = onProgress;
+    const parsedStatements: ParsedStatement[] = [];
+    const failures: string[] = [];
+    const overlaps: ImportOverlap[] = [];
+    const importRecords: ImportRecord[] = [];
+    const importedAt = new Date().toISOString();
+    const seenFingerprints = new Set(this.importHistory
+      .filter(record => record.batchId !== this.batchId)
+      .flatMap(record => record.lineFingerprints));
+    let skippedSeenCount = 0;
+
+    for (const [index, statement] of statements.entries()) {
+      const fileName = statement.file.name;
+      this.sheetNames = statement.sheetNames;
+      this.bankProfile = getBankProfile(statement.bankProfileId);
+      this.currentFile = { index, count: statements.length, name: fileName };
+      onFileStatus?.(index, 'processing');
+      this.reportProgress('reading', 0);
+
+      try {
+        const parsed = await this.readFile(statement.file);
+        this.reportProgress('parsing', 1);
+        const sourceAccount = parsed.metadata.accountNumber;
+        parsed.donations = parsed.donations.map(d => this.withPixPayer({ ...d, sourceFile: fileName, sourceAccount }));
+        parsed.rejectedRows.forEach(r => { r.sourceFile = fileName; });
+
+        const fileHash = await hashContent(await DonationProcessor.readAsArrayBuffer(statement.file));
+        const lineFingerprints = await fingerprintLines(parsed.donations);
+        parsed.donations.forEach((d, i) => { d.fingerprint = lineFingerprints[i]; });
+
+        // Counted before seen lines are skipped, so the record describes the whole file
+        const amountEndings = countAmountEndings(parsed.donations);
+
+        const overlap = findOverlap({ fileName, fileHash, lineFingerprints }, this.importHistory, this.batchId);
+        if (overlap) {
+          overlaps.push(overlap);
+          if (this.skipSeenLines) {
+            const unseen = parsed.donations.filter(d => !seenFingerprints.has(d.fingerprint as string));
+            skippedSeenCount += parsed.donations.length - unseen.length;
+            parsed.donations = unseen;
+          }
+        }
+
+        importRecords.push({
+          batchId: this.batchId || importedAt,
+          fileName,
+          fileHash,
+          importedAt,
+          lineFingerprints,
+          amountEndings,
+        });
+        parsedStatements.push(parsed);
+        onFileStatus?.(index, 'done', `${parsed.donations.length} lançamentos`);
+      } catch (error) {
+        if (error instanceof ColumnMappingRequiredError) {
+          error.fileName = fileName;
+          onFileStatus?.(index, 'pending', error.message);
+          throw error;
+        }
+
+        const message = error instanceof Error ? error.message : String(error);
+        onFileStatus?.(index, 'error', message);
+        failures.push(`${fileName}: ${message}`);
+      }
+    }
+
+    if (parsedStatements.length === 0) {
+      throw new Error(failures.join('\n') || 'Nenhum arquivo para processar');
+    }
+
+    const rawDonations = parsedStatements.flatMap(st => st.donations);
+    const rejectedRows = parsedStatements.flatMap(st => st.rejectedRows);
+    const metadata = this.mergeMetadata(parsedStatements.map(st => st.metadata));
     const processedDonations = this.processDonations(rawDonations);
-    const { mappedDonations, unmappedDonations } = this.separateByMapping(processedDonations);
-    const summary = this.generateSummary(mappedDonations);
-    const stats = this.generateStats(processedDonations, unmappedDonations);
+
+    this.reportProgress('summarizing', 0);
+    const donationsOnly = processedDonations.filter(d => d.category === 'donation');
+    const refunds = processedDonations.filter(d => d.category === 'refund');
+    const otherTransactions = processedDonations.filter(d => d.category !== 'donation' && d.category !== 'refund');
+    this.matchRefunds(donationsOnly, refunds);
+    this.flagLowConfidence(donationsOnly);
+    const { mappedDonations, unmappedDonations } = this.separateByMapping(donationsOnly);
+    const summary = DonationProcessor.generateSummary(mappedDonations, refunds, this.churches);
+    const categorySummary = this.generateCategorySummary(otherTransactions);
+    const stats = this.generateStats(processedDonations, unmappedDonations, skippedSeenCount);
+    this.reportProgress('summarizing', 1);
 
     return {
       donations: mappedDonations,
       summary,
       unmappedDonations,
+      refunds,
+      otherTransactions,
+      categorySummary,
       stats,
+      overlaps,
+      importRecords,
+      metadata,
+      rejectedRows,
+      codingMode: this.codingMode,
     };
   }
 
-  private async readExcelFile(file: File): Promise<RawDonation[]> {
+  /** Turns a stage's own progress (0–1) into overall progress for `onProgress`. */
+  private reportProgress(stage: ProcessingStage, fraction: number): void {
+    if (!this.onProgress) return;
+
+    if (stage === 'reading' || stage === 'parsing') {
+      const { index, count, name } = this.currentFile;
+      const withinFile = stage === 'reading'
+        ? fraction * READING_SHARE
+        : READING_SHARE + fraction * (1 - READING_SHARE);
+      this.onProgress({ stage, percent: Math.round(((index + withinFile) / count) * FILE_STAGES_PERCENT), fileName: name });
+      return;
+    }
+
+    const [start, end] = STAGE_PERCENT_RANGES[stage];
+    this.onProgress({ stage, percent: Math.round(start + fraction * (end - start)) });
+  }
+
+  private async readFile(file: File): Promise<ParsedStatement> {
+    const extension = file.name.toLowerCase().match(/\.[^.]+$/)?.[0] || '';
+
+    switch (extension) {
+      case '.ofx':
+        return this.readOfxFile(file);
+      case '.ret':
+        return this.readCnabFile(file);
+      case '.csv':
+      case '.txt':
+        return this.readTextFile(file);
+      case '.xls':
+      case '.xlsx':
+        return this.readExcelFile(file);
+      default:
+        throw new Error(`Formato de arquivo não suportado: ${extension || file.name}. Use ${SUPPORTED_FILE_EXTENSIONS.join(', ')}.`);
+    }
+  }
+
+  private async readOfxFile(file: File): Promise<ParsedStatement> {
+    const content = decodeOfx(await DonationProcessor.readAsArrayBuffer(file));
+
+    try {
+      return { ...parseOfx(content), metadata: parseOfxMetadata(content) };
+    } catch (error) {
+      throw new Error(`Erro ao processar arquivo OFX: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private async readTextFile(file: File): Promise<ParsedStatement> {
+    const content = decodeText(await DonationProcessor.readAsArrayBuffer(file));
+
+    // Banks often deliver CNAB returns as .txt, so sniff before treating it as CSV
+    if (detectCnabLayout(content)) {
+      return this.parseCnabContent(content);
+    }
+
+    try {
+      return this.parseExcelData(parseCsv(content));
+    } catch (error) {
+      if (error instanceof ColumnMappingRequiredError) throw error;
+      throw new Error(`Erro ao processar arquivo CSV: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private async readCnabFile(file: File): Promise<ParsedStatement> {
+    // CNAB files are plain ASCII/Latin-1 by spec
+    const content = new TextDecoder('windows-1252').decode(await DonationProcessor.readAsArrayBuffer(file));
+    return this.parseCnabContent(content);
+  }
+
+  private parseCnabContent(content: string): ParsedStatement {
+    try {
+      return { ...parseCnab(content), metadata: {} };
+    } catch (error) {
+      throw new Error(`Erro ao processar retorno CNAB: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private static readAsArrayBuffer(file: File): Promise<ArrayBuffer> {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
-      
-      reader.onload = (e) => {
-        try {
-          const data = new Uint8Array(e.target?.result as ArrayBuffer);
-          const workbook = XLSX.read(data, { type: 'array' });
-          
-          // Use the first sheet
-          const firstSheetName = workbook.SheetNames[0];
-          const worksheet = workbook.Sheets[firstSheetName];
-          
-          // Convert to JSON
-          const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as any[][];
-          
-          const donations = this.parseExcelData(jsonData);
-          resolve(donations);
-        } catch (error) {
-          reject(new Error(`Erro ao processar arquivo Excel: ${error}`));
-        }
-      };
-      
+      reader.onload = (e) => resolve(e.target?.result as ArrayBuffer);
       reader.onerror = () => reject(new Error('Erro ao ler arquivo'));
       reader.readAsArrayBuffer(file);
     });
   }
 
-  private parseExcelData(data: any[][]): RawDonation[] {
-    if (data.length === 0) return [];
+  /**
+   * Lists the sheets of a workbook with their row counts, for the sheet picker.
+   * Only the first row of each sheet is parsed; `!fullref` keeps the real range.
+   */
+  static async listSheets(file: File): Promise<SheetInfo[]> {
+    const workbook = XLSX.read(new Uint8Array(await DonationProcessor.readAsArrayBuffer(file)), { type: 'array', sheetRows: 1 });
 
-    // Find headers (assuming first row or search for known patterns)
-    const headers = data[0].map((h: any) => String(h).toLowerCase());
-    
-    // Map column indices
-    const dateIndex = this.findColumnIndex(headers, ['data', 'date', 'dt']);
-    const amountIndex = this.findColumnIndex(headers, ['valor', 'amount', 'value', 'vlr']);
-    const donorIndex = this.findColumnIndex(headers, ['doador', 'donor', 'nome', 'name']);
-    const descriptionIndex = this.findColumnIndex(headers, ['descricao', 'description', 'desc', 'observacao']);
-
-    if (dateIndex === -1 || amountIndex === -1) {
-      throw new Error('Colunas obrigatórias não encontradas. Certifique-se de que há colunas de data e valor.');
+    return workbook.SheetNames.map(name => {
+      const sheet = workbook.Sheets[name];
+      const ref = (sheet['!fullref'] as string | undefined) || sheet['!ref'];
+      if (!ref) return { name, rowCount: 0 };
+
+      const range = XLSX.utils.decode_range(ref);
+      return { name, rowCount: range.e.r - range.s.r + 1 };
+    });
+  }
+
+  /**
+   * Suggests a bank layout preset by looking at the file name and the first rows
+   * of the statement (or the bank code, for OFX). CNAB returns need no preset.
+   */
+  static async suggestBankProfile(file: File): Promise<BankProfile | null> {
+    const extension = file.name.toLowerCase().match(/\.[^.]+$/)?.[0] || '';
+    const buffer = await DonationProcessor.readAsArrayBuffer(file);
+
+    try {
+      switch (extension) {
+        case '.xls':
+        case '.xlsx': {
+          const workbook = XLSX.read(new Uint8Array(buffer), { type: 'array', sheetRows: HEADER_SCAN_ROWS });
+          const rows = XLSX.utils.sheet_to_json(workbook.Sheets[workbook.SheetNames[0]], { header: 1 }) as unknown[][];
+          return suggestBankProfile({ fileName: file.name, rows });
+        }
+        case '.csv':
+        case '.txt': {
+          const content = decodeText(buffer);
+          if (detectCnabLayout(content)) return null;
+          return suggestBankProfile({ fileName: file.name, rows: parseCsv(content, HEADER_SCAN_ROWS) });
+        }
+        case '.ofx': {
+          const metadata = parseOfxMetadata(decodeOfx(buffer));
+          return suggestBankProfile({ fileName: file.name, rows: [[metadata.bankName]], bankCode: metadata.bankCode });
+        }
+        default:
+          return null;
+      }
+    } catch {
+      return null;
+    }
+  }
+
+  private async readExcelFile(file: File): Promise<ParsedStatement> {
+    const data = new Uint8Array(await DonationProcessor.readAsArrayBuffer(file));
+
+    try {
+      const workbook = XLSX.read(data, { type: 'array' });
+
+      // Default to the first sheet unless specific sheets were picked
+      const sheetNames = this.sheetNames?.length ? this.sheetNames : [workbook.SheetNames[0]];
+      const statements: ParsedStatement[] = [];
+
+      for (const sheetName of sheetNames) {
+        const worksheet = workbook.Sheets[sheetName];
+        if (!worksheet) {
+          throw new Error(`Planilha "${sheetName}" não encontrada no arquivo`);
+        }
+
+        // Convert to JSON; rows start at the sheet's range, which may not be row 1
+        const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as unknown[][];
+        const firstRow = worksheet['!ref'] ? XLSX.utils.decode_range(worksheet['!ref']).s.r + 1 : 1;
+        const statement = this.parseExcelData(jsonData, firstRow);
+        statement.donations.forEach(d => { d.sourceSheet = sheetName; });
+        statement.rejectedRows.forEach(r => { r.sourceSheet = sheetName; });
+        statements.push(statement);
+      }
+
+      return {
+        donations: statements.flatMap(st => st.donations),
+        rejectedRows: statements.flatMap(st => st.rejectedRows),
+        metadata: this.mergeMetadata(statements.map(st => st.metadata)),
+      };
+    } catch (error) {
+      if (error instanceof ColumnMappingRequiredError) throw error;
+      throw new Error(`Erro ao processar arquivo Excel: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  // Sheets and monthly files usually describe the same account over consecutive periods
+  private mergeMetadata(metadataList: StatementMetadata[]): StatementMetadata {
+    const merged: StatementMetadata = {};
+
+    for (const metadata of metadataList) {
+      merged.bankName ??= metadata.bankName;
+      merged.bankCode ??= metadata.bankCode;
+      merged.agency ??= metadata.agency;
+      merged.accountNumber ??= metadata.accountNumber;
+      merged.openingBalance ??= metadata.openingBalance;
+      merged.dateFormat ??= metadata.dateFormat;
+
+      if (metadata.periodStart && (!merged.periodStart || metadata.periodStart < merged.periodStart)) {
+        merged.periodStart = metadata.periodStart;
+      }
+      if (metadata.periodEnd && (!merged.periodEnd || metadata.periodEnd > merged.periodEnd)) {
+        merged.periodEnd = metadata.periodEnd;
+      }
+    }
+
+    return merged;
+  }
+
+  /** `firstRowNumber` is the source row of `data[0]`, so rejected rows point at the right line. */
+  private parseExcelData(data: unknown[][], firstRowNumber = 1): ParsedStatement {
+    if (data.length === 0) return { donations: [], metadata: {}, rejectedRows: [] };
+    this.reportProgress('parsing', 0);
+
+    // Exports often add a title or agency preamble, so the preset's row only
+    // counts when the required columns are actually there
+    const presetHeaderRow = this.bankProfile?.headerRow;
+    const headerRowIndex = presetHeaderRow !== undefined && data[presetHeaderRow]?.length &&
+      hasRequiredColumns(this.resolveColumns(Array.from(data[presetHeaderRow], h => String(h ?? '').trim())))
+      ? presetHeaderRow
+      : this.findHeaderRow(data);
+    const metadata = this.extractPreambleMetadata(data.slice(0, headerRowIndex));
+    const rawHeaders = Array.from(data[headerRowIndex], h => String(h ?? '').trim());
+    const columns = this.resolveColumns(rawHeaders);
+
+    const dateIndex = columns.date ?? -1;
+    const donorIndex = columns.donor ?? -1;
+    const descriptionIndex = columns.description ?? -1;
+    const typeIndex = columns.type ?? -1;
+
+    const previewRows = () => data
+      .slice(headerRowIndex + 1, headerRowIndex + PREVIEW_ROW_COUNT + 1)
+      .map(row => rawHeaders.map((_, index) => String(row?.[index] ?? '')));
+
+    if (!hasRequiredColumns(columns)) {
+      throw new ColumnMappingRequiredError(rawHeaders, previewRows(), columns);
+    }
+
+    // A saved profile or a decisive column wins; a bank preset settles ambiguous
+    // columns; otherwise the user has to say which field is the day
+    const savedDateFormat = this.findColumnProfile(rawHeaders)?.dateFormat;
+    const inferredDateFormat = inferDateFormat(data.slice(headerRowIndex + 1).map(row => row?.[dateIndex]));
+    const dateFormat = savedDateFormat
+      ?? (inferredDateFormat !== 'ambiguous' ? inferredDateFormat : null)
+      ?? this.bankProfile?.dateFormat;
+
+    if (!dateFormat && inferredDateFormat === 'ambiguous') {
+      throw new ColumnMappingRequiredError(rawHeaders, previewRows(), columns, inferredDateFormat);
+    }
+    metadata.dateFormat = dateFormat || undefined;
+
+    // Decide each amount column's decimal separator from all of its values;
+    // columns that never settle it fall back to the bank preset, if any
+    const amountRoles = AMOUNT_ROLES.filter(role => columns[role] !== undefined);
+    const separators: Partial<Record<ColumnRole, DecimalSeparator>> = {};
+    for (const role of amountRoles) {
+      const values = data.slice(headerRowIndex + 1).map(row => row?.[columns[role] as number]);
+      const separator = detectDecimalSeparator(values) ?? this.bankProfile?.decimalSeparator;
+      if (separator) separators[role] = separator;
     }
 
     const donations: RawDonation[] = [];
+    const rejectedRows: RejectedRow[] = [];
+
+    // Process data rows (skip preamble and header)
+    for (let i = headerRowIndex + 1; i < data.length; i++) {
+      if (i % PROGRESS_INTERVAL === 0) this.reportProgress('parsing', i / data.length);
 
-    // Process data rows (skip header)
-    for (let i = 1; i < data.length; i++) {
       const row = data[i];
-      if (!row || row.length === 0) continue;
+      const cells = Array.from(row || [], cell => String(cell ?? '').trim());
+      if (cells.every(cell => !cell)) continue;
+
+      const reject = (reason: string) => rejectedRows.push({ rowNumber: i + firstRowNumber, cells, reason });
 
       try {
-        const date = this.parseDate(row[dateIndex]);
-        const amount = this.parseAmount(row[amountIndex]);
-        
-        if (date && !isNaN(amount)) {
+        const parsedDate = this.parseDate(row[dateIndex], dateFormat || 'dmy');
+        let amount = this.parseRowAmount(row, columns, separators);
+        const separatorReasons = amountRoles.flatMap(role => {
+          const value = cells[columns[role] as number];
+          switch (amountSeparatorDoubt(row[columns[role] as number], separators[role])) {
+            case 'ambiguous':
+              return [`Valor ambíguo "${value}": separador decimal indefinido (ex.: 1.500 = mil e quinhentos ou um e cinquenta)`];
+            case 'conflict':
+              return [`Valor "${value}" usa um separador decimal diferente do restante da coluna ("${separators[role]}")`];
+            default:
+              return [];
+          }
+        });
+
+        // Unsigned amounts: the type column decides whether the line is a credit
+        if (this.bankProfile?.amountSign === 'typeColumn' && typeIndex !== -1) {
+          const isCredit = (this.bankProfile.creditTypes || []).includes(normalizeHeader(row[typeIndex]));
+          amount = isCredit ? Math.abs(amount) : -Math.abs(amount);
+        }
+
+        if (parsedDate && !isNaN(amount)) {
           donations.push({
-            date,
+            date: parsedDate.date,
+            time: parsedDate.time,
             amount,
             donorName: donorIndex !== -1 ? String(row[donorIndex] || '').trim() || undefined : undefined,
             description: descriptionIndex !== -1 ? String(row[descriptionIndex] || '').trim() || undefined : undefined,
+            transactionType: typeIndex !== -1 ? String(row[typeIndex] || '').trim() || undefined : undefined,
+            reviewReasons: separatorReasons.length ? separatorReasons : undefined,
           });
+        } else if (!parsedDate) {
+          reject(cells[dateIndex] ? `Data inválida: "${cells[dateIndex]}"` : 'Data ausente');
+        } else {
+          const amountCells = [columns.amount, columns.credit, columns.debit]
+            .filter((index): index is number => index !== undefined)
+            .map(index => cells[index])
+            .filter(Boolean);
+          reject(amountCells.length ? `Valor inválido: "${amountCells.join('" / "')}"` : 'Valor ausente');
         }
       } catch (error) {
-        console.warn(`Erro ao processar linha ${i + 1}:`, error);
+        reject(`Erro ao processar linha: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    return { donations, metadata, rejectedRows };
+  }
+
+  /**
+   * Picks the most header-like of the first rows: a row matching a saved column
+   * profile wins outright, otherwise the row naming the most known columns, with
+   * the number of short text cells as tie-breaker.
+   */
+  private findHeaderRow(data: unknown[][]): number {
+    let bestIndex = 0;
+    let bestScore = -1;
+
+    for (let i = 0; i < Math.min(data.length, HEADER_SCAN_ROWS); i++) {
+      const row = Array.from(data[i] || [], cell => String(cell ?? '').trim());
+      if (row.every(cell => !cell)) continue;
+
+      const signature = getHeaderSignature(row);
+      if (this.columnProfiles.some(p => p.signature === signature)) return i;
+
+      const headers = row.map(normalizeHeader);
+      const labelCells = headers.filter(h => h && h.length <= 40 && !/^[-+r$\s\d.,()/:]+$/.test(h));
+      const knownColumns = (Object.keys(COLUMN_NAMES) as ColumnRole[])
+        .filter(role => labelCells.some(cell => COLUMN_NAMES[role].some(name => cell.includes(name))))
+        .length;
+
+      const score = knownColumns * 100 + labelCells.length;
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = i;
+      }
+    }
+
+    return bestIndex;
+  }
+
+  /**
+   * Reads "label: value" pairs from the rows above the header. The value is
+   * either the rest of the label cell or the next non-empty cell of the row.
+   */
+  private extractPreambleMetadata(preamble: unknown[][]): StatementMetadata {
+    const metadata: StatementMetadata = {};
+
+    for (const row of preamble) {
+      const cells = Array.from(row || [], cell => cell ?? '');
+
+      cells.forEach((cell, index) => {
+        const label = normalizeHeader(cell);
+        if (!label) return;
+
+        const inlineValue = String(cell).split(':').slice(1).join(':').trim();
+        const nextValue = cells.slice(index + 1).find(c => String(c).trim() !== '');
+        const value = inlineValue || nextValue;
+        if (value === undefined || value === '') {
+          if (!metadata.bankName && /\b(banco|bank|itau|bradesco|caixa|santander|nubank|inter|sicoob|sicredi)\b/.test(label)) {
+            metadata.bankName = String(cell).trim();
+          }
+          return;
+        }
+
+        if (/^ag(encia)?\b/.test(label) && !metadata.agency) {
+          metadata.agency = String(value).trim();
+        } else if (/^conta\b/.test(label) && !metadata.accountNumber) {
+          metadata.accountNumber = String(value).trim();
+        } else if (/^periodo\b/.test(label) && !metadata.periodStart) {
+          const dates = String(value).match(/\d{1,4}[/-]\d{1,2}[/-]\d{1,4}/g) || [];
+          metadata.periodStart = this.parseDate(dates[0])?.date;
+          metadata.periodEnd = this.parseDate(dates[1])?.date;
+        } else if (/^saldo (anterior|inicial)\b/.test(label) && metadata.openingBalance === undefined) {
+          const balance = this.parseAmount(value);
+          if (!isNaN(balance)) metadata.openingBalance = balance;
+        } else if (/^banco\b/.test(label) && !metadata.bankName) {
+          metadata.bankName = String(value).trim();
+        }
+      });
+    }
+
+    return metadata;
+  }
+
+  private findColumnProfile(rawHeaders: string[]): ColumnProfile | undefined {
+    const signature = getHeaderSignature(rawHeaders);
+    return this.columnProfiles.find(p => p.signature === signature);
+  }
+
+  private resolveColumns(rawHeaders: string[]): Partial<Record<ColumnRole, number>> {
+    const profile = this.findColumnProfile(rawHeaders);
+    if (profile) return profile.columns;
+
+    if (this.bankProfile) {
+      const presetColumns = matchBankProfileColumns(this.bankProfile, rawHeaders);
+      if (hasRequiredColumns(presetColumns)) return presetColumns;
+    }
+
+    const headers = rawHeaders.map(normalizeHeader);
+    const columns: Partial<Record<ColumnRole, number>> = {};
+    const taken = new Set<number>();
+
+    for (const role of Object.keys(COLUMN_NAMES) as ColumnRole[]) {
+      const index = this.findColumnIndex(headers, COLUMN_NAMES[role], taken);
+      if (index !== -1) {
+        columns[role] = index;
+        taken.add(index);
       }
     }
 
-    return donations;
+    return columns;
   }
 
-  private findColumnIndex(headers: string[], possibleNames: string[]): number {
+  private findColumnIndex(headers: string[], possibleNames: string[], taken: Set<number> = new Set()): number {
     for (const name of possibleNames) {
-      const index = headers.findIndex(h => h.includes(name));
+      const index = headers.findIndex((h, i) => !taken.has(i) && h.includes(name));
       if (index !== -1) return index;
     }
     return -1;
   }
 
-  private parseDate(value: any): Date | null {
+  private parseDate(value: any, format: DateFormat = 'dmy'): { date: LocalDate; time?: string } | null {
     if (!value) return null;
 
     // Handle Excel date number
     if (typeof value === 'number') {
-      return new Date((value - 25569) * 86400 * 1000);
+      return fromExcelSerial(value);
     }
 
-    // Handle string dates
-    const dateStr = String(value);
-    
-    // Try common Brazilian formats
-    const patterns = [
-      /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, // DD/MM/YYYY
-      /^(\d{1,2})-(\d{1,2})-(\d{4})$/, // DD-MM-YYYY
-      /^(\d{4})-(\d{1,2})-(\d{1,2})$/, // YYYY-MM-DD
-    ];
-
-    for (const pattern of patterns) {
-      const match = dateStr.match(pattern);
-      if (match) {
-        const [, part1, part2, part3] = match;
-        
-        // Check if it's YYYY-MM-DD format
-        if (pattern.source.includes('(\\d{4})')) {
-          return new Date(parseInt(part1), parseInt(part2) - 1, parseInt(part3));
-        } else {
-          // DD/MM/YYYY or DD-MM-YYYY
-          return new Date(parseInt(part3), parseInt(part2) - 1, parseInt(part1));
-        }
-      }
+    // Handle string dates, optionally followed by a time
+    const text = String(value).trim();
+    const timeMatch = text.match(/[ T](\d{1,2}):(\d{2})(?::(\d{2}))?/);
+    const time = timeMatch
+      ? toLocalTime(parseInt(timeMatch[1]), parseInt(timeMatch[2]), parseInt(timeMatch[3] || '0'))
+      : undefined;
+
+    const isoMatch = text.match(ISO_DATE_PATTERN);
+    if (isoMatch) {
+      const date = toLocalDate(parseInt(isoMatch[1]), parseInt(isoMatch[2]), parseInt(isoMatch[3]));
+      return date ? { date, time } : null;
+    }
+
+    // DD/MM/YYYY, DD-MM-YY etc.; the column's format decides which field is the day.
+    // No fallback to `new Date(text)`: it silently reads US-style dates.
+    const match = text.match(DAY_MONTH_PATTERN);
+    if (!match) return null;
+
+    const [, first, second, yearText] = match;
+    const [day, month] = format === 'mdy' ? [second, first] : [first, second];
+    const year = parseInt(yearText) + (yearText.length === 2 ? 2000 : 0);
+
+    const date = toLocalDate(year, parseInt(month), parseInt(day));
+    return date ? { date, time } : null;
+  }
+
+  /**
+   * Reads a row's signed amount from whichever layout the statement uses: one
+   * signed column, separate credit/debit columns, or an amount plus a D/C flag.
+   */
+  private parseRowAmount(
+    row: unknown[],
+    columns: Partial<Record<ColumnRole, number>>,
+    separators: Partial<Record<ColumnRole, DecimalSeparator>>,
+  ): Money {
+    if (columns.credit !== undefined || columns.debit !== undefined) {
+      const credit = columns.credit !== undefined ? this.parseAmount(row[columns.credit], separators.credit) : NaN;
+      const debit = columns.debit !== undefined ? this.parseAmount(row[columns.debit], separators.debit) : NaN;
+
+      if (!isNaN(credit) && credit !== 0) return Math.abs(credit);
+      if (!isNaN(debit) && debit !== 0) return -Math.abs(debit);
+      if (!isNaN(credit) || !isNaN(debit)) return 0;
+      if (columns.amount === undefined) return NaN;
+    }
+
+    const amount = this.parseAmount(row[columns.amount ?? -1], separators.amount);
+
+    if (columns.indicator !== undefined) {
+      const flag = normalizeHeader(row[columns.indicator]);
+      if (flag.startsWith('d')) return -Math.abs(amount);
+      if (flag.startsWith('c')) return Math.abs(amount);
     }
 
-    // Fallback to JS Date parsing
-    const parsed = new Date(dateStr);
-    return isNaN(parsed.getTime()) ? null : parsed;
+    return amount;
   }
 
-  private parseAmount(value: any): number {
-    if (typeof value === 'number') return value;
+  private parseAmount(value: any, decimalSeparator: DecimalSeparator = ','): Money {
+    if (typeof value === 'number') return toMoney(value);
     
     const str = String(value || '').trim();
     if (!str) return NaN;
 
     // Remove currency symbols and normalize
-    let normalized = str
-      .replace(/[R$\s]/g, '') // Remove R$ and spaces
-      .replace(/\./g, '') // Remove thousands separator (dots)
-      .replace(',', '.'); // Replace decimal separator (comma to dot)
+    let normalized = str.replace(/[R$\s]/g, ''); // Remove R$ and spaces
+    normalized = normalized.replace(/^\+/, ''); // "+150,00" is an explicit credit
+
+    // "150,00 D" / "150,00C" style debit/credit suffixes (or prefixes)
+    const indicator = normalized.match(/^([DC])(?=[\d(-])|(?<=[\d)])([DC])$/i);
+    if (indicator) {
+      normalized = normalized.replace(/^[DC]|[DC]$/i, '');
+      if ((indicator[1] || indicator[2]).toUpperCase() === 'D') normalized = `-${normalized.replace(/^-/, '')}`;
+    }
+
+    normalized = decimalSeparator === ','
+      ? normalized
+        .replace(/\./g, '') // Remove thousands separator (dots)
+        .replace(',', '.') // Replace decimal separator (comma to dot)
+      : normalized.replace(/,/g, ''); // Remove thousands separator (commas)
 
     // Handle negative values
     const isNegative = normalized.includes('-') || normalized.includes('(');
     normalized = normalized.replace(/[-()]/g, '');
 
-    const amount = parseFloat(normalized);
+    const amount = parseDecimalMoney(normalized);
     return isNegative ? -amount : amount;
   }
 
+  private withPixPayer(donation: RawDonation): RawDonation {
+    const pix = parsePixPayer(donation);
+    return pix ? { ...donation, pix, donorName: donation.donorName || pix.name } : donation;
+  }
+
   private processDonations(rawDonations: RawDonation[]): ProcessedDonation[] {
     const processedDonations: ProcessedDonation[] = [];
     const seen = new Set<string>();
 
-    for (const donation of rawDonations) {
-      // Extract cents correctly using precise decimal arithmetic
-      const amountInCents = Math.round(Math.abs(donation.amount) * 100);
-      const cents = amountInCents % 100;
+    for (const [index, donation] of rawDonations.entries()) {
+      if (index % PROGRESS_INTERVAL === 0) this.reportProgress('mapping', index / rawDonations.length);
+
+      const cents = amountCode(donation.amount, this.codingMode);
 
-      // Create unique key for duplicate detection
-      const key = `${donation.date.toISOString().split('T')[0]}_${donation.amount}_${donation.donorName || ''}_${donation.description || ''}`;
+      // Create unique key for duplicate detection; an E2E ID identifies a Pix on its own
+      const key = donation.pix?.e2eId ? `e2e_${donation.pix.e2eId}` : `${donation.date}_${donation.time || ''}_${donation.amount}_${donation.donorName || ''}_${donation.description || ''}`;
       const isDuplicate = seen.has(key);
       seen.add(key);
 
-      // Assign church based on cents
-      const assignedChurch = this.mappings.get(cents) || 'Não mapeado';
+      // Fees, interest and transfers never carry a church code in their cents
+      const category = classifyTransaction(donation);
+
+      // First matching rule by priority; donations flagged for review are never assigned on a guess
+      const rule = category === 'donation' && !donation.reviewReasons?.length
+        ? findAssignment(this.rules, donation)
+        : undefined;
 
       processedDonations.push({
         ...donation,
+        category,
         cents,
-        assignedChurch,
+        assignedChurch: rule?.churchName || 'Não mapeado',
+        assignedBy: rule && { ruleId: rule.id, ruleType: rule.type, description: describeRule(rule), cents: rule.cents },
         isDuplicate,
         isNegative: donation.amount < 0,
       });
@@ -195,6 +839,51 @@ export class DonationProcessor {
     return processedDonations;
   }
 
+  /**
+   * Pairs each refund with the donation it reverses: same amount, paid no more
+   * than `REFUND_MATCH_WINDOW_DAYS` before, and by the same payer when both
+   * lines name one. The latest such donation wins. A matched refund takes the
+   * donation's church so church totals come out net.
+   */
+  private matchRefunds(donations: ProcessedDonation[], refunds: ProcessedDonation[]): void {
+    const samePayer = (donation: ProcessedDonation, refund: ProcessedDonation) => {
+      if (donation.pix?.document && refund.pix?.document) return donation.pix.document === refund.pix.document;
+      if (donation.donorName && refund.donorName) return normalizeHeader(donation.donorName) === normalizeHeader(refund.donorName);
+      return true;
+    };
+
+    const byDate = (a: ProcessedDonation, b: ProcessedDonation) =>
+      `${a.date} ${a.time || ''}`.localeCompare(`${b.date} ${b.time || ''}`);
+
+    for (const refund of [...refunds].sort(byDate)) {
+      const original = donations
+        .filter(donation => {
+          const age = daysBetween(donation.date, refund.date);
+          return !donation.isDuplicate &&
+            !donation.refundedAmount &&
+            donation.amount === -refund.amount &&
+            age >= 0 && age <= REFUND_MATCH_WINDOW_DAYS &&
+            samePayer(donation, refund);
+        })
+        .sort(byDate)
+        .pop();
+
+      if (!original) continue;
+
+      original.refundedAmount = original.amount;
+      refund.assignedChurch = original.assignedChurch;
+      refund.assignedBy = original.assignedBy;
+      refund.cents = original.cents;
+      refund.refundedDonation = {
+        date: original.date,
+        time: original.time,
+        amount: original.amount,
+        donorName: original.donorName,
+        fingerprint: original.fingerprint,
+      };
+    }
+  }
+
   private separateByMapping(donations: ProcessedDonation[]): {
     mappedDonations: ProcessedDonation[];
     unmappedDonations: ProcessedDonation[];
@@ -205,32 +894,105 @@ export class DonationProcessor {
     return { mappedDonations, unmappedDonations };
   }
 
-  private generateSummary(donations: ProcessedDonation[]): ChurchSummary[] {
-    const churchMap = new Map<string, { total: number; count: number; cents: number }>();
+  /** Marks assignments the treasurer should confirm before they count in the summary. */
+  private flagLowConfidence(donations: ProcessedDonation[]): void {
+    const configuredCodes = this.churches.flatMap(church => churchCodes(church));
+    const collisionReport = analyzeCollisionRisk(this.importHistory, configuredCodes, this.codingMode);
+    scoreConfidence(donations, collisionReport.sampleSize >= MIN_SAMPLE_SIZE ? collisionReport : null, this.codingMode);
+
+    for (const donation of donations) {
+      if (donation.confidence !== undefined && donation.confidence < this.reviewThreshold) {
+        donation.reviewStatus = 'pending';
+      }
+    }
+  }
+
+  /**
+   * Church totals, split per code. Donations waiting for review, and the
+   * refunds matched to them, are left out until the treasurer settles them;
+   * public so the page can recompute the summary after each review decision.
+   */
+  static generateSummary(donations: ProcessedDonation[], refunds: ProcessedDonation[], churches: Church[]): ChurchSummary[] {
+    const churchMap = new Map<string, Map<number | undefined, CodeSummary>>();
+    const pendingFingerprints = new Set(donations
+      .filter(d => d.reviewStatus === 'pending' && d.fingerprint)
+      .map(d => d.fingerprint));
+
+    // Lines assigned by a rule other than cents are grouped under no code
+    const codeSummary = (line: ProcessedDonation) => {
+      const codes = churchMap.get(line.assignedChurch) || new Map<number | undefined, CodeSummary>();
+      churchMap.set(line.assignedChurch, codes);
+
+      const cents = line.assignedBy?.ruleType === 'cents' ? line.assignedBy.cents : undefined;
+      const summary = codes.get(cents) || { cents, gross: 0, refunds: 0, total: 0, count: 0 };
+      codes.set(cents, summary);
+      return summary;
+    };
 
     for (const donation of donations) {
-      if (donation.assignedChurch === 'Não mapeado') continue;
+      if (donation.assignedChurch === 'Não mapeado' || donation.reviewStatus === 'pending') continue;
+
+      const summary = codeSummary(donation);
+      summary.gross += donation.amount;
+      summary.count++;
+    }
+
+    // Only matched refunds carry a church, and always one that has the original donation
+    for (const refund of refunds) {
+      if (refund.refundedDonation && pendingFingerprints.has(refund.refundedDonation.fingerprint)) continue;
+      if (churchMap.has(refund.assignedChurch)) codeSummary(refund).refunds += Math.abs(refund.amount);
+    }
+
+    return Array.from(churchMap.entries()).map(([churchName, codes]) => {
+      const byCode = Array.from(codes.values())
+        .map(code => ({ ...code, total: code.gross - code.refunds }))
+        .sort((a, b) => (a.cents ?? Infinity) - (b.cents ?? Infinity));
+      const sum = (field: 'gross' | 'refunds' | 'count') => byCode.reduce((total, code) => total + code[field], 0);
+
+      return {
+        churchName,
+        codes: churchCodes(churches.find(church => church.name === churchName) || { name: churchName, codes: [] }),
+        gross: sum('gross'),
+        refunds: sum('refunds'),
+        total: sum('gross') - sum('refunds'),
+        count: sum('count'),
+        byCode,
+      };
+    }).sort((a, b) => b.total - a.total); // Sort by net total descending
+  }
+
+  private generateCategorySummary(transactions: ProcessedDonation[]): CategorySummary[] {
+    const categoryMap = new Map<ProcessedDonation['category'], { total: number; count: number }>();
 
-      const existing = churchMap.get(donation.assignedChurch) || { total: 0, count: 0, cents: donation.cents };
-      existing.total += Math.abs(donation.amount); // Use absolute value for totals
+    for (const transaction of transactions) {
+      const existing = categoryMap.get(transaction.category) || { total: 0, count: 0 };
+      existing.total += transaction.amount;
       existing.count++;
-      churchMap.set(donation.assignedChurch, existing);
+      categoryMap.set(transaction.category, existing);
     }
 
-    return Array.from(churchMap.entries()).map(([churchName, data]) => ({
-      churchName,
-      cents: data.cents,
+    return Array.from(categoryMap.entries()).map(([category, data]) => ({
+      category,
       total: data.total,
       count: data.count,
-    })).sort((a, b) => b.total - a.total); // Sort by total descending
+    })).sort((a, b) => b.count - a.count);
   }
 
-  private generateStats(allDonations: ProcessedDonation[], unmappedDonations: ProcessedDonation[]): ProcessingStats {
+  private generateStats(
+    allDonations: ProcessedDonation[],
+    unmappedDonations: ProcessedDonation[],
+    skippedSeenCount: number,
+  ): ProcessingStats {
     return {
       totalProcessed: allDonations.length,
       duplicatesFound: allDonations.filter(d => d.isDuplicate).length,
-      negativeValuesFound: allDonations.filter(d => d.isNegative).length,
+      negativeValuesFound: allDonations.filter(d => d.category === 'refund').length,
       unmappedCount: unmappedDonations.length,
+      unmatchedRefundCount: allDonations.filter(d => d.category === 'refund' && !d.refundedDonation).length,
+      reviewCount: allDonations.filter(d => d.reviewReasons?.length).length,
+      nonDonationCount: allDonations.filter(d => d.category !== 'donation' && d.category !== 'refund').length,
+      skippedSeenCount,
+      pendingReviewCount: allDonations.filter(d => d.reviewStatus === 'pending').length,
     };
   }
 
@@ -241,8 +1003,8 @@ export class DonationProcessor {
       ...data.map(row => 
         headers.map(header => {
           const value = row[header];
-          if (typeof value === 'string' && value.includes(',')) {
-            return `"${value}"`;
+          if (typeof value === 'string' && /[",\n]/.test(value)) {
+            return `"${value.replace(/"/g, '""')}"`;
           }
           return value;
         }).join(',')
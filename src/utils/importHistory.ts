@@ -0,0 +1,110 @@
+import { ImportOverlap, ImportRecord, RawDonation } from '@/types/donation';
+
+const STORAGE_KEY = 'donation-processor:import-history';
+
+// Enough to tell lines apart without keeping donor names or amounts in storage
+const LINE_HASH_LENGTH = 24;
+
+// Statements are rarely imported again after a year; older records only use up
+// the browser's storage quota
+const MAX_HISTORY_AGE_DAYS = 365;
+const MAX_HISTORY_RECORDS = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+export async function hashContent(data: ArrayBuffer | string): Promise<string> {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Fingerprints each statement line by its bank id (FITID or Pix E2E ID) when it
+ * has one, otherwise by its content. Identical lines within a file are numbered
+ * so two equal R$ 50,00 deposits on the same day stay two lines.
+ */
+export async function fingerprintLines(donations: RawDonation[]): Promise<string[]> {
+  const occurrences = new Map<string, number>();
+
+  const keys = donations.map(donation => {
+    if (donation.pix?.e2eId) return `e2e:${donation.pix.e2eId}`;
+    if (donation.fitId) return `fit:${donation.fitId}`;
+
+    const content = `line:${donation.date}|${donation.time || ''}|${donation.amount}|${donation.donorName || ''}|${donation.description || ''}`;
+    const occurrence = (occurrences.get(content) || 0) + 1;
+    occurrences.set(content, occurrence);
+    return `${content}#${occurrence}`;
+  });
+
+  const hashes = await Promise.all(keys.map(hashContent));
+  return hashes.map(hash => hash.substring(0, LINE_HASH_LENGTH));
+}
+
+/**
+ * Compares a file against earlier imports, ignoring those made by the same
+ * batch so reprocessing the current upload never reports it against itself.
+ */
+export function findOverlap(
+  file: { fileName: string; fileHash: string; lineFingerprints: string[] },
+  history: ImportRecord[],
+  batchId?: string,
+): ImportOverlap | null {
+  const previous = history.filter(record => record.batchId !== batchId);
+  const seenFingerprints = new Set(previous.flatMap(record => record.lineFingerprints));
+  const seenLines = file.lineFingerprints.filter(fingerprint => seenFingerprints.has(fingerprint)).length;
+  const sameFile = previous.some(record => record.fileHash === file.fileHash);
+
+  if (!sameFile && seenLines === 0) return null;
+
+  const lineSet = new Set(file.lineFingerprints);
+  return {
+    fileName: file.fileName,
+    sameFile,
+    seenLines,
+    totalLines: file.lineFingerprints.length,
+    previousImports: previous
+      .filter(record => record.fileHash === file.fileHash || record.lineFingerprints.some(f => lineSet.has(f)))
+      .map(record => ({ fileName: record.fileName, importedAt: record.importedAt })),
+  };
+}
+
+/** Drops records older than a year and keeps at most the most recent `MAX_HISTORY_RECORDS`. */
+export function pruneImportHistory(history: ImportRecord[], now = Date.now()): ImportRecord[] {
+  return history
+    .filter(record => now - Date.parse(record.importedAt) <= MAX_HISTORY_AGE_DAYS * DAY_MS)
+    .slice(-MAX_HISTORY_RECORDS);
+}
+
+export function loadImportHistory(): ImportRecord[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? pruneImportHistory(JSON.parse(stored) as ImportRecord[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Stores a batch's files, replacing whatever an earlier run of the same batch
+ * stored. When the storage is full the oldest records are dropped until the
+ * batch fits; if even the batch alone does not fit, nothing is stored.
+ */
+export function saveImportRecords(batchId: string, records: ImportRecord[]): ImportRecord[] {
+  let previous = loadImportHistory().filter(r => r.batchId !== batchId);
+
+  for (;;) {
+    const history = pruneImportHistory([...previous, ...records]);
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+      return history;
+    } catch (error) {
+      if (!isQuotaError(error)) throw error;
+      if (previous.length === 0) {
+        throw new Error('Não há espaço no navegador para guardar o histórico de importações; arquivos repetidos não serão detectados na próxima importação');
+      }
+      previous = previous.slice(Math.ceil(previous.length / 2));
+    }
+  }
+}
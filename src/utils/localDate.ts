@@ -0,0 +1,76 @@
+import { LocalDate, ValidityPeriod } from '@/types/donation';
+
+// Excel serial day 0 is 1899-12-30 (keeping Lotus' 1900 leap-year bug)
+const EXCEL_EPOCH_UTC = Date.UTC(1899, 11, 30);
+const MS_PER_DAY = 86400 * 1000;
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+/** Builds a calendar date, rejecting impossible ones such as 31/02. */
+export function toLocalDate(year: number, month: number, day: number): LocalDate | null {
+  if (!Number.isInteger(year) || !Number.isInteger(month) || !Number.isInteger(day)) return null;
+  if (month < 1 || month > 12 || day < 1) return null;
+
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (day > daysInMonth) return null;
+
+  return `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+}
+
+export function toLocalTime(hours: number, minutes: number, seconds = 0): string | undefined {
+  if (hours > 23 || minutes > 59 || seconds > 59) return undefined;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+}
+
+/**
+ * Converts an Excel serial number to a calendar date and, when the serial has
+ * a fractional part, a time. All arithmetic is done in UTC so the browser's
+ * timezone cannot shift the day.
+ */
+export function fromExcelSerial(serial: number): { date: LocalDate; time?: string } {
+  const wholeDays = Math.floor(serial);
+  const date = new Date(EXCEL_EPOCH_UTC + wholeDays * MS_PER_DAY).toISOString().slice(0, 10);
+
+  const totalSeconds = Math.round((serial - wholeDays) * 86400);
+  if (totalSeconds === 0 || totalSeconds >= 86400) return { date };
+
+  return {
+    date,
+    time: toLocalTime(Math.floor(totalSeconds / 3600), Math.floor((totalSeconds % 3600) / 60), totalSeconds % 60),
+  };
+}
+
+/** Whole days from `from` to `to`; negative when `to` comes first. */
+export function daysBetween(from: LocalDate, to: LocalDate): number {
+  const toUtc = (date: LocalDate) => {
+    const [year, month, day] = date.split('-').map(Number);
+    return Date.UTC(year, month - 1, day);
+  };
+  return Math.round((toUtc(to) - toUtc(from)) / MS_PER_DAY);
+}
+
+/** Whether `date` falls in the period; `YYYY-MM-DD` strings compare in calendar order. */
+export function isWithinPeriod(date: LocalDate, period: ValidityPeriod): boolean {
+  return (!period.validFrom || date >= period.validFrom) && (!period.validTo || date <= period.validTo);
+}
+
+export function periodsOverlap(a: ValidityPeriod, b: ValidityPeriod): boolean {
+  return (!a.validFrom || !b.validTo || a.validFrom <= b.validTo) &&
+    (!b.validFrom || !a.validTo || b.validFrom <= a.validTo);
+}
+
+/** Formats as DD/MM/AAAA without going through a `Date`. */
+export function formatLocalDate(date: LocalDate, time?: string): string {
+  const [year, month, day] = date.split('-');
+  const formatted = `${day}/${month}/${year}`;
+  return time ? `${formatted} ${time.slice(0, 5)}` : formatted;
+}
+
+/** Describes a validity period in words; empty when it is open on both ends. */
+export function formatPeriod(period: ValidityPeriod): string {
+  const from = period.validFrom && formatLocalDate(period.validFrom);
+  const to = period.validTo && formatLocalDate(period.validTo);
+  if (from && to) return `${from} a ${to}`;
+  if (from) return `desde ${from}`;
+  return to ? `até ${to}` : '';
+}
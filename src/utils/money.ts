@@ -0,0 +1,37 @@
+import { Money } from '@/types/donation';
+
+const currencyFormat = new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' });
+
+/** Converts a reais float, as Excel stores numeric cells, to centavos. */
+export function toMoney(reais: number): Money {
+  return Math.round(reais * 100);
+}
+
+/**
+ * Reads an unsigned decimal string such as "1234.5" straight into centavos,
+ * without going through a float; a third decimal place rounds half up. Like
+ * `parseFloat`, trailing text after the number is ignored.
+ */
+export function parseDecimalMoney(decimal: string): Money {
+  const match = decimal.match(/^(\d*)(?:\.(\d*))?/);
+  if (!match || (!match[1] && !match[2])) return NaN;
+
+  const [, integerPart, fractionPart = ''] = match;
+  const fraction = fractionPart.padEnd(3, '0');
+  const cents = parseInt(integerPart || '0', 10) * 100 + parseInt(fraction.substring(0, 2), 10);
+  return parseInt(fraction[2], 10) >= 5 ? cents + 1 : cents;
+}
+
+/** The centavos part (0–99) that encodes the church. */
+export function centsPart(amount: Money): number {
+  return Math.abs(amount) % 100;
+}
+
+/** Average rounded to the nearest centavo. */
+export function averageMoney(total: Money, count: number): Money {
+  return count > 0 ? Math.round(total / count) : 0;
+}
+
+export function formatMoney(amount: Money): string {
+  return currencyFormat.format(amount / 100);
+}
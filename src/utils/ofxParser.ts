@@ -0,0 +1,127 @@
+import { LocalDate, Money, ParsedStatement, RawDonation, RejectedRow, StatementMetadata } from '@/types/donation';
+import { toLocalDate, toLocalTime } from '@/utils/localDate';
+import { parseDecimalMoney } from '@/utils/money';
+
+/**
+ * Decodes an OFX file. SGML (1.x) files declare their charset in the plain-text
+ * header (`CHARSET:1252`), XML (2.x) files in the `<?xml encoding="..."?>` prolog.
+ */
+export function decodeOfx(buffer: ArrayBuffer): string {
+  const head = new TextDecoder('ascii').decode(buffer.slice(0, 1024));
+  const xmlEncoding = head.match(/encoding\s*=\s*["']([\w-]+)["']/i)?.[1];
+  const sgmlCharset = head.match(/^CHARSET:\s*([\w-]+)/im)?.[1];
+
+  let encoding = 'utf-8';
+  if (xmlEncoding) {
+    encoding = xmlEncoding;
+  } else if (sgmlCharset && sgmlCharset.toUpperCase() !== 'NONE') {
+    encoding = /^\d+$/.test(sgmlCharset) ? `windows-${sgmlCharset}` : sgmlCharset;
+  }
+
+  try {
+    return new TextDecoder(encoding).decode(buffer);
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer);
+  }
+}
+
+/**
+ * Extracts the `<STMTTRN>` transactions of an OFX statement. Aggregates are
+ * closed in both SGML and XML flavours, but SGML leaf elements usually are not,
+ * so leaf values are read up to the next tag or line break.
+ */
+export function parseOfx(content: string): Pick<ParsedStatement, 'donations' | 'rejectedRows'> {
+  if (!/<OFX>/i.test(content)) {
+    throw new Error('Arquivo OFX inválido: elemento <OFX> não encontrado');
+  }
+
+  const donations: RawDonation[] = [];
+  const rejectedRows: RejectedRow[] = [];
+  const transactionPattern = /<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = transactionPattern.exec(content)) !== null) {
+    const block = match[1];
+    const posted = parseOfxDate(readTag(block, 'DTPOSTED'));
+    const amount = parseOfxAmount(readTag(block, 'TRNAMT'));
+
+    if (!posted || isNaN(amount)) {
+      rejectedRows.push({
+        rowNumber: content.slice(0, match.index).split('\n').length,
+        cells: block.trim().split(/\r?\n/).map(line => line.trim()).filter(Boolean),
+        reason: !posted ? 'Data (DTPOSTED) ausente ou inválida' : 'Valor (TRNAMT) ausente ou inválido',
+      });
+      continue;
+    }
+
+    const name = readTag(block, 'NAME') || readTag(block, 'PAYEE');
+    const memo = readTag(block, 'MEMO');
+
+    donations.push({
+      date: posted.date,
+      time: posted.time,
+      amount,
+      donorName: name,
+      description: memo || name,
+      fitId: readTag(block, 'FITID'),
+      transactionType: readTag(block, 'TRNTYPE'),
+      memo,
+    });
+  }
+
+  return { donations, rejectedRows };
+}
+
+/** Reads the account (`<BANKACCTFROM>`) and period (`<BANKTRANLIST>`) of the statement. */
+export function parseOfxMetadata(content: string): StatementMetadata {
+  return {
+    bankName: readTag(content, 'ORG'),
+    bankCode: readTag(content, 'BANKID'),
+    agency: readTag(content, 'BRANCHID'),
+    accountNumber: readTag(content, 'ACCTID'),
+    periodStart: parseOfxDate(readTag(content, 'DTSTART'))?.date,
+    periodEnd: parseOfxDate(readTag(content, 'DTEND'))?.date,
+  };
+}
+
+function readTag(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match ? decodeEntities(match[1]).trim() : '';
+  return value || undefined;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// OFX dates look like YYYYMMDD[HHMMSS[.XXX]][[-3:BRT]]. The digits are already in
+// the bank's local time, so they are kept as written instead of applying the offset.
+function parseOfxDate(value: string | undefined): { date: LocalDate; time?: string } | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?)?/);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds] = match;
+  const date = toLocalDate(parseInt(year), parseInt(month), parseInt(day));
+  if (!date) return null;
+
+  // Many banks send 000000 or 120000 as a placeholder when the time is unknown
+  const time = hours && !/^(00|12)0000$/.test(`${hours}${minutes}${seconds || '00'}`)
+    ? toLocalTime(parseInt(hours), parseInt(minutes), parseInt(seconds || '0'))
+    : undefined;
+
+  return { date, time };
+}
+
+// Some Brazilian banks write TRNAMT with a decimal comma instead of the spec's dot.
+function parseOfxAmount(value: string | undefined): Money {
+  if (!value) return NaN;
+
+  const normalized = value.includes('.') ? value.replace(/,/g, '') : value.replace(',', '.');
+  const amount = parseDecimalMoney(normalized.replace(/^[-+]/, ''));
+  return normalized.startsWith('-') ? -amount : amount;
+}
@@ -0,0 +1,76 @@
+import { PixPayer, RawDonation } from '@/types/donation';
+
+// E + payer institution ISPB (8) + YYYYMMDDHHmm (12) + 11 alphanumerics
+const E2E_PATTERN = /\bE(\d{8})\d{12}[A-Za-z0-9]{11}\b/;
+
+// CPF (000.000.000-00) or CNPJ (00.000.000/0000-00), with any digits masked by "*"
+const DOCUMENT_PATTERN = /[\d*]{2,3}\.[\d*]{3}\.[\d*]{3}(?:\/[\d*]{4})?-[\d*]{2}/;
+
+// "PIX RECEBIDO", "PIX RECEB.", "CRED PIX", ... then an optional DD/MM[/AA] and HH:mm
+const PIX_PREFIX_PATTERN = /^.*?\bpix\b(?:\s+(?:recebid[oa]|receb\.?|recebimento|credito|cred\.?|transf\.?|transferencia))?[\s:-]*(?:\d{2}\/\d{2}(?:\/\d{2,4})?)?[\s:-]*(?:\d{2}:\d{2})?[\s:-]*/i;
+
+// ISPBs of the institutions most Pix credits come from, read from the E2E ID
+const BANKS_BY_ISPB: Record<string, string> = {
+  '00000000': 'Banco do Brasil',
+  '00360305': 'Caixa Econômica Federal',
+  '60701190': 'Itaú',
+  '60746948': 'Bradesco',
+  '90400888': 'Santander',
+  '18236120': 'Nubank',
+  '00416968': 'Banco Inter',
+  '02038232': 'Sicoob',
+  '01181521': 'Sicredi',
+  '10573521': 'Mercado Pago',
+  '22896431': 'PicPay',
+  '08561701': 'PagBank',
+};
+
+/**
+ * Masks a full CPF as ***.456.789-** (the format banks print themselves);
+ * CNPJs identify organisations and are kept as is.
+ */
+function maskDocument(document: string): string {
+  if (document.includes('/') || document.includes('*')) return document;
+  return `***${document.substring(3, 11)}-**`;
+}
+
+function cleanName(text: string): string | undefined {
+  const name = text
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s\-–:/|]+|[\s\-–:/|]+$/g, '');
+
+  return /\p{L}{2,}/u.test(name) ? name : undefined;
+}
+
+/**
+ * Pulls the payer out of a Pix credit's description or memo, e.g.
+ * "PIX RECEBIDO 12/03 JOAO DA SILVA ***.123.456-**". Returns null for
+ * debits (the account holder is the payer) and for lines that are not Pix and
+ * carry no E2E ID.
+ */
+export function parsePixPayer(donation: RawDonation): PixPayer | null {
+  if (donation.amount < 0) return null;
+
+  // OFX lines often repeat the memo as the description; reading it twice doubles the name
+  const fields = [donation.description, donation.memo].map(field => field?.trim()).filter(Boolean);
+  const text = Array.from(new Set(fields)).join(' ');
+  const e2eMatch = text.match(E2E_PATTERN);
+  if (!e2eMatch && !/\bpix\b/i.test(text)) return null;
+
+  const documentMatch = text.match(DOCUMENT_PATTERN);
+
+  // The name sits between the Pix prefix and the document or E2E ID
+  let remainder = text.replace(PIX_PREFIX_PATTERN, '');
+  for (const match of [documentMatch, e2eMatch]) {
+    if (match) remainder = remainder.split(match[0])[0];
+  }
+
+  const payer: PixPayer = {
+    name: cleanName(remainder),
+    document: documentMatch ? maskDocument(documentMatch[0]) : undefined,
+    e2eId: e2eMatch?.[0],
+    bank: e2eMatch ? BANKS_BY_ISPB[e2eMatch[1]] || `ISPB ${e2eMatch[1]}` : undefined,
+  };
+
+  return Object.values(payer).some(Boolean) ? payer : null;
+}
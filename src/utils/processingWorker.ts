@@ -0,0 +1,101 @@
+import {
+  ColumnMappingRequiredError,
+  DonationProcessorOptions,
+  ProcessingCallbacks,
+  StatementFile,
+} from '@/utils/donationProcessor';
+import { Church, ColumnRole, DateFormat, FileStatus, ProcessingProgress, ProcessingResult } from '@/types/donation';
+
+export interface ProcessingRequest {
+  churches: Church[];
+  options: DonationProcessorOptions;
+  statements: StatementFile[];
+}
+
+/** Messages posted by the worker; errors are sent as plain data since classes do not survive `postMessage` */
+export type ProcessingMessage =
+  | { type: 'progress'; progress: ProcessingProgress }
+  | { type: 'fileStatus'; index: number; status: FileStatus; message?: string }
+  | { type: 'result'; result: ProcessingResult }
+  | {
+    type: 'columnMappingRequired';
+    headers: string[];
+    previewRows: string[][];
+    suggestedColumns: Partial<Record<ColumnRole, number>>;
+    inferredDateFormat: DateFormat | 'ambiguous' | null;
+    fileName?: string;
+  }
+  | { type: 'error'; message: string };
+
+export class ProcessingCancelledError extends Error {
+  constructor() {
+    super('Processamento cancelado');
+    this.name = 'ProcessingCancelledError';
+  }
+}
+
+export interface ProcessingJob {
+  promise: Promise<ProcessingResult>;
+  cancel: () => void;
+}
+
+/**
+ * Runs a batch in a Web Worker so large statements do not freeze the page.
+ * Cancelling terminates the worker outright; each job gets a fresh one.
+ */
+export function startProcessingJob(request: ProcessingRequest, callbacks: ProcessingCallbacks = {}): ProcessingJob {
+  const worker = new Worker(new URL('../workers/donationProcessor.worker.ts', import.meta.url), { type: 'module' });
+  let rejectJob: (error: Error) => void = () => {};
+
+  const promise = new Promise<ProcessingResult>((resolve, reject) => {
+    rejectJob = reject;
+
+    worker.onmessage = (event: MessageEvent<ProcessingMessage>) => {
+      const message = event.data;
+
+      switch (message.type) {
+        case 'progress':
+          callbacks.onProgress?.(message.progress);
+          break;
+        case 'fileStatus':
+          callbacks.onFileStatus?.(message.index, message.status, message.message);
+          break;
+        case 'result':
+          worker.terminate();
+          resolve(message.result);
+          break;
+        case 'columnMappingRequired': {
+          worker.terminate();
+          const error = new ColumnMappingRequiredError(
+            message.headers,
+            message.previewRows,
+            message.suggestedColumns,
+            message.inferredDateFormat,
+          );
+          error.fileName = message.fileName;
+          reject(error);
+          break;
+        }
+        case 'error':
+          worker.terminate();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(`Erro no processamento em segundo plano: ${event.message}`));
+    };
+
+    worker.postMessage(request);
+  });
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      rejectJob(new ProcessingCancelledError());
+    },
+  };
+}
@@ -0,0 +1,80 @@
+import { RawDonation, TransactionCategory } from '@/types/donation';
+import { normalizeHeader } from '@/utils/columnProfiles';
+
+export const TRANSACTION_CATEGORY_LABELS: Record<TransactionCategory, string> = {
+  donation: 'Doação',
+  refund: 'Estorno',
+  fee: 'Tarifa',
+  interest: 'Rendimento',
+  internalTransfer: 'Transferência entre contas',
+  other: 'Outro',
+};
+
+/**
+ * Accent-free, lower-case fragments of the type column, description or memo,
+ * checked in this order so "transf entre contas" wins over a generic "transf"
+ * and an explicit credit ("pix recebido") over fee words in the payer's name.
+ * Each keyword must start a word; a trailing space makes it a whole word, so
+ * "tar " never matches "altar" or "baltar".
+ */
+const CATEGORY_KEYWORDS: [TransactionCategory, string[]][] = [
+  ['refund', ['estorno', 'estornado', 'devolucao', 'devolvido', 'pix devol', 'chargeback']],
+  ['donation', [
+    'pix recebido',
+    'pix receb',
+    'recebimento pix',
+    'ted recebida',
+    'doc recebido',
+    'transf recebida',
+    'transferencia recebida',
+  ]],
+  ['internalTransfer', [
+    'transf entre contas',
+    'transferencia entre contas',
+    'mesma titularidade',
+    'mesmo titular',
+    'aplicacao',
+    'resgate',
+  ]],
+  ['fee', ['tarifa', 'tar ', 'taxa ', 'taxas ', 'iof ', 'cesta de servicos', 'manutencao de conta', 'anuidade']],
+  ['interest', ['rendimento', 'rend pago', 'juros', 'remuneracao']],
+  ['donation', [
+    'deposito',
+    'dep dinheiro',
+    'liquidacao de titulo',
+  ]],
+  ['other', ['pix enviado', 'ted enviada', 'doc enviado', 'pagamento', 'pagto', 'saque', 'compra']],
+];
+
+// OFX TRNTYPE values that settle the category on their own
+const OFX_TYPE_CATEGORIES: Record<string, TransactionCategory> = {
+  FEE: 'fee',
+  SRVCHG: 'fee',
+  INT: 'interest',
+  DIV: 'interest',
+};
+
+/**
+ * Classifies a statement line from its type column (or OFX TRNTYPE) and
+ * description keywords. Lines no keyword explains are donations when they are
+ * credits, since plain donation spreadsheets carry no description at all; for
+ * the same reason a bare negative line, or a debit described as a donation, is
+ * a refund. A credit described as a refund (a fee reversed, a Pix sent coming
+ * back) is money returning to the church, not a donation.
+ */
+export function classifyTransaction(donation: RawDonation): TransactionCategory {
+  const ofxCategory = OFX_TYPE_CATEGORIES[donation.transactionType?.toUpperCase() || ''];
+  if (ofxCategory) return ofxCategory;
+
+  // Punctuation split into spaces, so "TAR.PACOTE" and "IOF-" still read as words
+  const text = ` ${normalizeHeader([donation.transactionType, donation.description, donation.memo].filter(Boolean).join(' '))
+    .replace(/[^a-z0-9]+/g, ' ')} `;
+
+  const category = CATEGORY_KEYWORDS.find(([, keywords]) => keywords.some(keyword => text.includes(` ${keyword}`)))?.[0];
+  if (category === 'donation' && donation.amount < 0) return 'refund';
+  if (category === 'refund' && donation.amount >= 0) return 'other';
+  if (category) return category;
+
+  if (donation.amount >= 0) return 'donation';
+  return text.trim() ? 'other' : 'refund';
+}
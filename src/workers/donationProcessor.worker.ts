@@ -0,0 +1,32 @@
+import { ColumnMappingRequiredError, DonationProcessor } from '@/utils/donationProcessor';
+// Type-only, so the worker bundle does not pull in the code that spawns it
+import type { ProcessingMessage, ProcessingRequest } from '@/utils/processingWorker';
+
+const post = (message: ProcessingMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<ProcessingRequest>) => {
+  const { churches, options, statements } = event.data;
+
+  try {
+    const processor = new DonationProcessor(churches, options);
+    const result = await processor.processFiles(statements, {
+      onFileStatus: (index, status, message) => post({ type: 'fileStatus', index, status, message }),
+      onProgress: (progress) => post({ type: 'progress', progress }),
+    });
+    post({ type: 'result', result });
+  } catch (error) {
+    if (error instanceof ColumnMappingRequiredError) {
+      post({
+        type: 'columnMappingRequired',
+        headers: error.headers,
+        previewRows: error.previewRows,
+        suggestedColumns: error.suggestedColumns,
+        inferredDateFormat: error.inferredDateFormat,
+        fileName: error.fileName,
+      });
+      return;
+    }
+
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Erro ao processar arquivo' });
+  }
+};